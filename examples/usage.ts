@@ -40,6 +40,15 @@ async function exampleUsage() {
     })
     console.log('Published posts:', posts)
 
+    // Same query with the fluent builder (no /rest/v1 prefix needed)
+    const latest = await client
+      .from('posts')
+      .select('id,title')
+      .eq('status', 'published')
+      .order('created_at', { ascending: false })
+      .limit(10)
+    console.log('Latest posts:', latest)
+
     // Update a post
     const updated = await client.patch(
       'posts',
@@ -0,0 +1,208 @@
+import { createSupabaseClient } from '../client/index'
+import { AuthApiError, SupabaseError } from '../types'
+import { ERROR_MESSAGES } from '../utils/constants'
+import { respondWith, sent } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+describe('Auth admin', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'sb_secret_test'
+  const adminUrl = `${baseUrl}/auth/v1/admin`
+  const user = { id: 'user-1', email: 'ada@example.com' }
+
+  it('lists users with pagination from the Link header', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(
+        { users: [user], aud: 'authenticated' },
+        {
+          headers: {
+            'X-Total-Count': '120',
+            Link: `<${adminUrl}/users?page=3&per_page=50>; rel="next", <${adminUrl}/users?page=3&per_page=50>; rel="last"`
+          }
+        }
+      )
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token: 'user',
+      fetch: fetchMock
+    })
+
+    const list = await client.auth.admin.listUsers({ page: 2, perPage: 50 })
+
+    expect(list).toEqual({
+      users: [user],
+      total: 120,
+      nextPage: 3,
+      lastPage: 3
+    })
+    expect(sent(fetchMock).url).toBe(`${adminUrl}/users?page=2&per_page=50`)
+    // Admin calls never act as the signed-in user
+    expect(sent(fetchMock).headers.Authorization).toBe(`Bearer ${apiKey}`)
+  })
+
+  it('creates, reads, updates, bans and deletes users', async () => {
+    const fetchMock = respondWith(() => Response.json(user))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+    const { admin } = client.auth
+
+    await admin.createUser({
+      email: 'ada@example.com',
+      password: 'secret',
+      email_confirm: true,
+      app_metadata: { plan: 'pro' }
+    })
+    await admin.getUserById('user-1')
+    await admin.updateUserById('user-1', { ban_duration: '24h' })
+    await admin.deleteUser('user-1', true)
+
+    expect(
+      fetchMock.mock.calls.map((_, index) => {
+        const { method, url } = sent(fetchMock, index)
+        return `${method} ${url.replace(adminUrl, '')}`
+      })
+    ).toEqual([
+      'POST /users',
+      'GET /users/user-1',
+      'PUT /users/user-1',
+      'DELETE /users/user-1'
+    ])
+    expect(sent(fetchMock).json()).toEqual({
+      email: 'ada@example.com',
+      password: 'secret',
+      email_confirm: true,
+      app_metadata: { plan: 'pro' }
+    })
+    expect(sent(fetchMock, 2).json()).toEqual({ ban_duration: '24h' })
+    expect(sent(fetchMock, 3).json()).toEqual({ should_soft_delete: true })
+  })
+
+  it('generates links and splits the properties from the user', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json({
+        ...user,
+        action_link: 'https://example.supabase.co/auth/v1/verify?token=t',
+        email_otp: '123456',
+        hashed_token: 'hashed',
+        redirect_to: 'https://app.example.com',
+        verification_type: 'signup'
+      })
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const link = await client.auth.admin.generateLink({
+      type: 'signup',
+      email: 'ada@example.com',
+      password: 'secret',
+      options: { data: { name: 'Ada' }, redirectTo: 'https://app.example.com' }
+    })
+    await client.auth.admin.generateLink({
+      type: 'email_change_new',
+      email: 'ada@example.com',
+      newEmail: 'ada@new.example.com'
+    })
+
+    expect(link).toEqual({
+      properties: {
+        action_link: 'https://example.supabase.co/auth/v1/verify?token=t',
+        email_otp: '123456',
+        hashed_token: 'hashed',
+        redirect_to: 'https://app.example.com',
+        verification_type: 'signup'
+      },
+      user
+    })
+    expect(sent(fetchMock).url).toBe(`${adminUrl}/generate_link`)
+    expect(sent(fetchMock).json()).toEqual({
+      type: 'signup',
+      email: 'ada@example.com',
+      password: 'secret',
+      data: { name: 'Ada' },
+      redirect_to: 'https://app.example.com'
+    })
+    expect(sent(fetchMock, 1).json()).toEqual({
+      type: 'email_change_new',
+      email: 'ada@example.com',
+      new_email: 'ada@new.example.com'
+    })
+  })
+
+  it('invites users and manages their MFA factors', async () => {
+    const fetchMock = respondWith(() => Response.json({ id: 'factor-1' }))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await client.auth.admin.inviteUserByEmail('new@example.com', {
+      data: { team: 'a' },
+      redirectTo: 'https://app.example.com/welcome'
+    })
+    const deleted = await client.auth.admin.deleteFactor('user-1', 'factor-1')
+
+    expect(sent(fetchMock).url).toBe(
+      `${baseUrl}/auth/v1/invite?redirect_to=https%3A%2F%2Fapp.example.com%2Fwelcome`
+    )
+    expect(sent(fetchMock).json()).toEqual({
+      email: 'new@example.com',
+      data: { team: 'a' }
+    })
+    expect(deleted).toEqual({ id: 'factor-1' })
+    expect(sent(fetchMock, 1)).toMatchObject({
+      method: 'DELETE',
+      url: `${adminUrl}/users/user-1/factors/factor-1`
+    })
+  })
+
+  it('refuses to run with a publishable key', async () => {
+    const fetchMock = respondWith(() => Response.json(user))
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey: 'sb_publishable_test',
+      fetch: fetchMock
+    })
+
+    await expect(client.auth.admin.getUserById('user-1')).rejects.toEqual(
+      new SupabaseError(ERROR_MESSAGES.ADMIN_KEY_REQUIRED)
+    )
+    await expect(client.auth.admin.listUsers()).rejects.toBeInstanceOf(
+      SupabaseError
+    )
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('resolves to results when throwOnError is false', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(
+        { code: 'user_not_found', msg: 'User not found' },
+        { status: 404 }
+      )
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      throwOnError: false,
+      fetch: fetchMock
+    })
+
+    const { data, error, status } =
+      await client.auth.admin.getUserById('missing')
+    const denied = await createSupabaseClient({
+      baseUrl,
+      apiKey: 'sb_publishable_test',
+      fetch: fetchMock
+    }).auth.admin.listUsers({ throwOnError: false })
+
+    expect(data).toBeNull()
+    expect(error).toBeInstanceOf(AuthApiError)
+    expect(status).toBe(404)
+    expect(denied.error).toEqual(
+      new SupabaseError(ERROR_MESSAGES.ADMIN_KEY_REQUIRED)
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps auth() callable as a request method', () => {
+    const client = createSupabaseClient({ baseUrl, apiKey })
+
+    expect(typeof client.auth).toBe('function')
+  })
+})
@@ -0,0 +1,149 @@
+import { createSupabaseClient } from '../client/index'
+import type { AuthChangeEvent, AuthSession } from '../types'
+import { createMemoryStorage, serializeSession } from '../utils/storage/index'
+import { respondWith, respondWithJson } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+const tokenPair = {
+  access_token: 'access_1',
+  token_type: 'bearer',
+  expires_in: 3600,
+  refresh_token: 'refresh_1',
+  user: { id: 'user-1' }
+}
+
+const record = () => {
+  const seen: [AuthChangeEvent, AuthSession | null][] = []
+  const listener = (event: AuthChangeEvent, session: AuthSession | null) => {
+    seen.push([event, session])
+  }
+  return { seen, listener, events: () => seen.map(([event]) => event) }
+}
+
+// Lets the INITIAL_SESSION notification settle before acting
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('onAuthStateChange', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  it('emits INITIAL_SESSION with the restored session', async () => {
+    const storage = createMemoryStorage()
+    const stored: AuthSession = {
+      ...tokenPair,
+      expires_at: Math.floor(Date.now() / 1000) + 3600
+    }
+    await storage.set('key', serializeSession(stored))
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      storage,
+      storageKey: 'key'
+    })
+    const { seen, listener } = record()
+
+    client.onAuthStateChange(listener)
+    await flush()
+
+    expect(seen).toEqual([['INITIAL_SESSION', stored]])
+  })
+
+  it('emits sign-in, refresh, user update and sign-out events', async () => {
+    const responses = [
+      Response.json(tokenPair),
+      Response.json(tokenPair),
+      Response.json(tokenPair),
+      Response.json({ id: 'user-1', email: 'new@example.com' }),
+      new Response(null, { status: 204 })
+    ]
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      autoRefreshToken: true,
+      fetch: respondWith(() => responses.shift() ?? new Response())
+    })
+    const { seen, listener, events } = record()
+    client.onAuthStateChange(listener)
+    await flush()
+
+    await client.signIn('user@example.com', 'password')
+    await client.refreshToken('refresh_1')
+    await client.refreshSession()
+    await client.updateUser({ email: 'new@example.com' })
+    await client.signOut()
+
+    expect(events()).toEqual([
+      'INITIAL_SESSION',
+      'SIGNED_IN',
+      'TOKEN_REFRESHED',
+      'TOKEN_REFRESHED',
+      'USER_UPDATED',
+      'SIGNED_OUT'
+    ])
+    expect(seen[1][1]?.access_token).toBe('access_1')
+    expect(seen[4][1]?.user?.email).toBe('new@example.com')
+    expect(seen[5][1]).toBeNull()
+  })
+
+  it('emits events without session mode', async () => {
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: respondWithJson(tokenPair)
+    })
+    const { seen, listener, events } = record()
+    client.onAuthStateChange(listener)
+    await flush()
+
+    await client.signIn('user@example.com', 'password')
+
+    expect(events()).toEqual(['INITIAL_SESSION', 'SIGNED_IN'])
+    expect(seen[1][1]?.refresh_token).toBe('refresh_1')
+    expect(client.getSession()).toBeNull()
+  })
+
+  it('emits PASSWORD_RECOVERY for verified recovery codes', async () => {
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: respondWithJson(tokenPair)
+    })
+    const { listener, events } = record()
+    client.onAuthStateChange(listener)
+    await flush()
+
+    await client.verifyOTP('user@example.com', '123456', 'recovery')
+
+    expect(events()).toEqual(['INITIAL_SESSION', 'PASSWORD_RECOVERY'])
+  })
+
+  it('emits events from setToken', async () => {
+    const client = createSupabaseClient({ baseUrl, apiKey })
+    const { listener, events } = record()
+    client.onAuthStateChange(listener)
+    await flush()
+
+    client.setToken('first')
+    client.setToken('second')
+    client.setToken('')
+
+    expect(events()).toEqual([
+      'INITIAL_SESSION',
+      'SIGNED_IN',
+      'TOKEN_REFRESHED',
+      'SIGNED_OUT'
+    ])
+  })
+
+  it('stops notifying after unsubscribe', async () => {
+    const client = createSupabaseClient({ baseUrl, apiKey })
+    const { listener, events } = record()
+
+    const unsubscribe = client.onAuthStateChange(listener)
+    unsubscribe()
+    await flush()
+    client.setToken('token')
+
+    expect(events()).toEqual([])
+  })
+})
@@ -0,0 +1,91 @@
+import { createSupabaseClient } from '../client/index'
+import { CLIENT_INFO, VERSION } from '../utils/constants/index'
+import { respondWithJson, sent } from './helpers'
+import { afterEach, describe, expect, it, vi } from 'vite-plus/test'
+
+// Node built-ins are loaded by name so the suite needs no Node type package
+const fsModule: string = 'node:fs/promises'
+
+describe('Client fetch and headers', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('identifies the library version', async () => {
+    const fs = (await import(fsModule)) as {
+      readFile(path: string, encoding: 'utf8'): Promise<string>
+    }
+    const pkg = JSON.parse(await fs.readFile('package.json', 'utf8')) as {
+      version: string
+    }
+
+    expect(VERSION).toBe(pkg.version)
+    expect(CLIENT_INFO).toBe(`supabase-ts-rest/${pkg.version}`)
+  })
+
+  it('uses the configured fetch for REST, auth and public endpoints', async () => {
+    const globalFetch = vi.fn()
+    vi.stubGlobal('fetch', globalFetch)
+    const customFetch = respondWithJson({ access_token: 'token' })
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: customFetch
+    })
+
+    await client.get('posts')
+    await client.signIn('user@example.com', 'password')
+    await client.sendPasswordRecovery('user@example.com')
+    await client.from('posts').select()
+
+    expect(customFetch).toHaveBeenCalledTimes(4)
+    expect(globalFetch).not.toHaveBeenCalled()
+  })
+
+  it('sends x-client-info and global headers on every request', async () => {
+    const customFetch = respondWithJson({ access_token: 'token' })
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: customFetch,
+      headers: { 'x-tenant-id': 'acme' }
+    })
+
+    await client.get('posts')
+    await client.signIn('user@example.com', 'password')
+
+    for (const index of [0, 1]) {
+      expect(sent(customFetch, index).headers['x-client-info']).toBe(
+        CLIENT_INFO
+      )
+      expect(sent(customFetch, index).headers['x-tenant-id']).toBe('acme')
+    }
+  })
+
+  it('lets global headers override defaults and per-call headers override both', async () => {
+    const customFetch = respondWithJson([])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: customFetch,
+      headers: { 'x-client-info': 'my-app/1.0', Prefer: 'count=exact' }
+    })
+
+    await client.get('posts')
+    await client.post(
+      'posts',
+      { title: 'Hello' },
+      { returning: 'representation' }
+    )
+
+    const read = sent(customFetch).headers
+    const write = sent(customFetch, 1).headers
+    expect(read['x-client-info']).toBe('my-app/1.0')
+    expect(read.Prefer).toBe('count=exact')
+    expect(write.Prefer).toBe('return=representation')
+  })
+})
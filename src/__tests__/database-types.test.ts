@@ -0,0 +1,230 @@
+import { createSupabaseClient } from '../client/index'
+import { createClient } from '../index'
+import type { SupabaseClient } from '../types'
+import { respondWith, sent } from './helpers'
+import { describe, expect, expectTypeOf, it } from 'vite-plus/test'
+
+type Database = {
+  public: {
+    Tables: {
+      posts: {
+        Row: { id: number; title: string; status: string | null }
+        Insert: { id?: number; title: string; status?: string | null }
+        Update: { id?: number; title?: string; status?: string | null }
+      }
+    }
+    Views: {
+      published_posts: {
+        Row: { id: number; title: string }
+      }
+    }
+    Functions: {
+      search_posts: {
+        Args: { query: string }
+        Returns: { id: number; title: string; rank: number }[]
+      }
+      post_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+    }
+  }
+}
+
+describe('Database typing', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  it('infers row, insert and update types from table names', () => {
+    const client = createSupabaseClient<Database>({ baseUrl, apiKey })
+
+    expectTypeOf(() => client.get('posts')).returns.resolves.toEqualTypeOf<
+      Database['public']['Tables']['posts']['Row'][]
+    >()
+    expectTypeOf(() =>
+      client.get('published_posts')
+    ).returns.resolves.toEqualTypeOf<{ id: number; title: string }[]>()
+    expectTypeOf(() =>
+      client.from('posts').select()
+    ).returns.resolves.toEqualTypeOf<
+      Database['public']['Tables']['posts']['Row'][]
+    >()
+    expectTypeOf<Parameters<typeof client.post<'posts'>>[1]>().toEqualTypeOf<
+      | Database['public']['Tables']['posts']['Insert']
+      | Database['public']['Tables']['posts']['Insert'][]
+    >()
+    expectTypeOf<Parameters<typeof client.patch<'posts'>>[2]>().toEqualTypeOf<
+      Database['public']['Tables']['posts']['Update']
+    >()
+  })
+
+  it('types insert results by return preference', () => {
+    const client = createSupabaseClient<Database>({ baseUrl, apiKey })
+    type PostRow = Database['public']['Tables']['posts']['Row']
+
+    expectTypeOf(() =>
+      client.insert('posts', { title: 'x' })
+    ).returns.resolves.toEqualTypeOf<{
+      data: PostRow[]
+      count: number | null
+      locations: string[]
+    }>()
+    expectTypeOf(() =>
+      client.upsert('posts', [{ title: 'x' }], { returning: 'minimal' })
+    )
+      .returns.resolves.toHaveProperty('data')
+      .toEqualTypeOf<null>()
+  })
+
+  it('types post, put and patch results by return preference', () => {
+    const client = createSupabaseClient<Database>({ baseUrl, apiKey })
+    type PostRow = Database['public']['Tables']['posts']['Row']
+
+    expectTypeOf(() =>
+      client.post('posts', { title: 'x' })
+    ).returns.resolves.toBeUnknown()
+    expectTypeOf(() =>
+      client.post('posts', { title: 'x' }, { returning: 'representation' })
+    ).returns.resolves.toEqualTypeOf<PostRow[]>()
+    expectTypeOf(() =>
+      client.patch(
+        'posts',
+        { id: 'eq.1' },
+        { title: 'y' },
+        { returning: 'representation' }
+      )
+    ).returns.resolves.toEqualTypeOf<PostRow[]>()
+    expectTypeOf(() =>
+      client.put('posts', 'id', 1, { title: 'y' }, { returning: 'minimal' })
+    ).returns.resolves.toBeUnknown()
+  })
+
+  it('infers function arguments and results', () => {
+    const client = createSupabaseClient<Database>({ baseUrl, apiKey })
+
+    expectTypeOf(() =>
+      client.rpc('search_posts', { query: 'hello' }).gt('rank', 0.5)
+    ).returns.resolves.toEqualTypeOf<
+      { id: number; title: string; rank: number }[]
+    >()
+    expectTypeOf(() =>
+      client.rpc('post_count')
+    ).returns.resolves.toEqualTypeOf<number>()
+    expectTypeOf(() =>
+      client.rpc('search_posts', { query: 'a' }, { count: 'exact' })
+    ).returns.resolves.toEqualTypeOf<{
+      data: { id: number; title: string; rank: number }[]
+      count: number | null
+    }>()
+    expectTypeOf(() =>
+      client.rpc('search_posts', { query: 'a' }, { head: true, count: 'exact' })
+    ).returns.resolves.toEqualTypeOf<{ data: null; count: number | null }>()
+    expectTypeOf(() =>
+      client.rpc('search_posts', { query: 'a' }, { head: true })
+    ).returns.resolves.toEqualTypeOf<null>()
+  })
+
+  it('rejects unknown tables and columns at compile time', () => {
+    const client: SupabaseClient<Database> = createClient<Database>(
+      baseUrl,
+      apiKey
+    )
+    const reject = () => {
+      // @ts-expect-error unknown table
+      void client.get('comments')
+      // @ts-expect-error unknown column in insert
+      void client.post('posts', { title: 'x', missing: true })
+      // @ts-expect-error unknown column in update
+      void client.patch('posts', { id: 'eq.1' }, { nope: 1 })
+      // @ts-expect-error unknown column in filter
+      void client.get('posts', { nope: 'eq.1' })
+      // @ts-expect-error unknown primary key column
+      void client.put('posts', 'uuid', '1', { title: 'x' })
+      // @ts-expect-error unknown column in builder filter
+      void client.from('posts').select().eq('nope', 1)
+      // @ts-expect-error wrong value type in builder filter
+      void client.from('posts').select().eq('id', 'one')
+      // @ts-expect-error views without an Insert type are read-only
+      void client.from('published_posts').insert({ title: 'x' })
+      // @ts-expect-error unknown conflict column
+      void client.upsert('posts', { title: 'x' }, { onConflict: 'slug' })
+      // @ts-expect-error unknown function
+      void client.rpc('missing_fn')
+      // @ts-expect-error wrong argument type
+      void client.rpc('search_posts', { query: 1 })
+      // @ts-expect-error unknown column in function result filter
+      void client.rpc('search_posts', { query: 'a' }).eq('missing', 1)
+    }
+
+    expect(reject).toBeTypeOf('function')
+  })
+
+  it('accepts any table when no Database type is supplied', () => {
+    const client = createSupabaseClient({ baseUrl, apiKey })
+
+    expectTypeOf(() => client.get('anything')).returns.resolves.toEqualTypeOf<
+      Record<string, unknown>[]
+    >()
+  })
+
+  it('resolves bare table names under /rest/v1 and returns written rows', async () => {
+    const fetchMock = respondWith(
+      () =>
+        new Response(JSON.stringify([{ id: 1, title: 'x', status: null }]), {
+          status: 201
+        })
+    )
+    const client = createSupabaseClient<Database>({
+      baseUrl,
+      apiKey,
+      fetch: fetchMock
+    })
+
+    const rows = await client.post(
+      'posts',
+      { title: 'x' },
+      { returning: 'representation' }
+    )
+    await client.delete('posts', 'id', 'eq.1')
+
+    expect(rows[0].title).toBe('x')
+    expect(new URL(sent(fetchMock).url).pathname).toBe('/rest/v1/posts')
+    expect(sent(fetchMock).headers.Prefer).toBe('return=representation')
+    expect(new URL(sent(fetchMock, 1).url).searchParams.get('id')).toBe('eq.1')
+    expect(sent(fetchMock, 1).body).toBeUndefined()
+  })
+
+  it('sends no Prefer header unless a write asks for rows back', async () => {
+    const fetchMock = respondWith(() => new Response(null, { status: 201 }))
+    const client = createSupabaseClient<Database>({
+      baseUrl,
+      apiKey,
+      fetch: fetchMock
+    })
+
+    await client.post('posts', { title: 'x' })
+    await client.put('posts', 'id', 1, { title: 'y' })
+    await client.patch('posts', { id: 'eq.1' }, { title: 'z' })
+
+    expect(sent(fetchMock).headers.Prefer).toBeUndefined()
+    expect(sent(fetchMock, 1).headers.Prefer).toBeUndefined()
+    expect(sent(fetchMock, 2).headers.Prefer).toBeUndefined()
+  })
+
+  it('keeps endpoints that already include /rest/v1', async () => {
+    const fetchMock = respondWith(() => Response.json([]))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await client.get('rest/v1/posts')
+    await client.patch(
+      'rest/v1/posts',
+      { id: 'eq.1' },
+      { title: 'y' },
+      { headers: { Prefer: 'return=minimal' } }
+    )
+
+    expect(sent(fetchMock).url).toBe(`${baseUrl}/rest/v1/posts`)
+    expect(sent(fetchMock, 1).url).toBe(`${baseUrl}/rest/v1/posts?id=eq.1`)
+    expect(sent(fetchMock, 1).headers.Prefer).toBe('return=minimal')
+  })
+})
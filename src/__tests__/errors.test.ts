@@ -0,0 +1,190 @@
+import { createSupabaseClient } from '../client/index'
+import {
+  AbortError,
+  AuthApiError,
+  FunctionsHttpError,
+  FunctionsRelayError,
+  isAbortError,
+  isAuthApiError,
+  isFunctionsHttpError,
+  isFunctionsRelayError,
+  isNetworkError,
+  isParseError,
+  isPostgrestError,
+  isSupabaseError,
+  isTimeoutError,
+  NetworkError,
+  ParseError,
+  PostgrestError,
+  SupabaseError,
+  TimeoutError
+} from '../types'
+import { ERROR_MESSAGES } from '../utils/constants'
+import { respondWith } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+describe('Error hierarchy', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'sb_publishable_test'
+
+  it('raises PostgrestError with the code, details and hint', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(
+        {
+          code: '23505',
+          details: 'Key (slug)=(hello) already exists.',
+          hint: null,
+          message: 'duplicate key value violates unique constraint "posts_slug"'
+        },
+        { status: 409 }
+      )
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const error = await client.post('posts', { slug: 'hello' }).catch((e) => e)
+
+    expect(isPostgrestError(error)).toBe(true)
+    expect(error).toBeInstanceOf(PostgrestError)
+    expect(error).toBeInstanceOf(SupabaseError)
+    expect(error).toMatchObject({
+      name: 'PostgrestError',
+      statusCode: 409,
+      code: '23505',
+      details: 'Key (slug)=(hello) already exists.',
+      hint: null
+    })
+  })
+
+  it('raises AuthApiError with the GoTrue error code', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(
+        {
+          code: 400,
+          error_code: 'invalid_credentials',
+          msg: 'Invalid login credentials'
+        },
+        { status: 400 }
+      )
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const error = await client.signIn('ada@example.com', 'nope').catch((e) => e)
+
+    expect(isAuthApiError(error)).toBe(true)
+    expect(error).toMatchObject({
+      message: 'Auth request failed: 400 Invalid login credentials',
+      code: 'invalid_credentials',
+      reasons: []
+    })
+  })
+
+  it('exposes weak password reasons', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(
+        {
+          code: 422,
+          error_code: 'weak_password',
+          msg: 'Password is known to be weak and easy to guess',
+          weak_password: { reasons: ['length', 'pwned'] }
+        },
+        { status: 422 }
+      )
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const error = await client
+      .signUp('ada@example.com', 'password')
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(AuthApiError)
+    expect((error as AuthApiError).code).toBe('weak_password')
+    expect((error as AuthApiError).reasons).toEqual(['length', 'pwned'])
+  })
+
+  it('reads OAuth-style error codes from the token endpoint', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(
+        {
+          error: 'invalid_grant',
+          error_description: 'Invalid Refresh Token'
+        },
+        { status: 400 }
+      )
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await expect(client.refreshToken('stale')).rejects.toMatchObject({
+      name: 'AuthApiError',
+      code: 'invalid_grant'
+    })
+  })
+
+  it('wraps fetch failures in NetworkError', async () => {
+    const cause = new TypeError('fetch failed')
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: () => Promise.reject(cause)
+    })
+
+    const error = await client.get('posts').catch((e) => e)
+
+    expect(isNetworkError(error)).toBe(true)
+    expect(error).toEqual(new NetworkError(cause))
+    expect((error as NetworkError).message).toBe(ERROR_MESSAGES.NETWORK_ERROR)
+    expect((error as NetworkError).cause).toBe(cause)
+  })
+
+  it('raises ParseError for malformed JSON responses', async () => {
+    const fetchMock = respondWith(
+      () => new Response('<html>Bad gateway</html>')
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const error = await client
+      .signIn('ada@example.com', 'secret')
+      .catch((e) => e)
+
+    expect(isParseError(error)).toBe(true)
+    expect(error).toBeInstanceOf(ParseError)
+    expect(error).toMatchObject({
+      message: ERROR_MESSAGES.PARSE_ERROR,
+      statusCode: 200,
+      response: '<html>Bad gateway</html>'
+    })
+  })
+
+  it('keeps plain SupabaseError for other services', async () => {
+    const fetchMock = respondWith(
+      () => new Response('{"message":"Object not found"}', { status: 404 })
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const error = await client.storage
+      .from('docs')
+      .download('missing.txt')
+      .catch((e) => e)
+
+    expect(isSupabaseError(error)).toBe(true)
+    expect(isPostgrestError(error)).toBe(false)
+    expect(isAuthApiError(error)).toBe(false)
+  })
+
+  it('narrows timeouts with isTimeoutError', () => {
+    expect(isTimeoutError(new TimeoutError(100))).toBe(true)
+    expect(isTimeoutError(new SupabaseError('other'))).toBe(false)
+    expect(isSupabaseError(new Error('plain'))).toBe(false)
+  })
+
+  it('narrows aborts and Edge Function failures', () => {
+    const httpError = new FunctionsHttpError('hello', 500)
+    const relayError = new FunctionsRelayError('hello', 502)
+
+    expect(isAbortError(new AbortError())).toBe(true)
+    expect(isAbortError(new TimeoutError(100))).toBe(false)
+    expect(isFunctionsHttpError(httpError)).toBe(true)
+    expect(isFunctionsHttpError(relayError)).toBe(false)
+    expect(isFunctionsRelayError(relayError)).toBe(true)
+    expect(isFunctionsRelayError(httpError)).toBe(false)
+  })
+})
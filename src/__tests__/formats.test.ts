@@ -0,0 +1,188 @@
+import { createSupabaseClient } from '../client/index'
+import { PostgrestError } from '../types'
+import { respondWith, sent } from './helpers'
+import { describe, expect, expectTypeOf, it } from 'vite-plus/test'
+
+type Database = {
+  public: {
+    Tables: {
+      posts: {
+        Row: { id: number; title: string }
+        Insert: { id?: number; title: string }
+        Update: { id?: number; title?: string }
+      }
+    }
+    Views: Record<never, never>
+    Functions: Record<never, never>
+  }
+}
+
+const noRows = () =>
+  Response.json(
+    {
+      code: 'PGRST116',
+      details: 'The result contains 0 rows',
+      hint: null,
+      message: 'JSON object requested, multiple (or no) rows returned'
+    },
+    { status: 406 }
+  )
+
+describe('Response formats', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'sb_publishable_test'
+  const post = { id: 1, title: 'Hello' }
+
+  it('requests a single object with single()', async () => {
+    const fetchMock = respondWith(() => Response.json(post))
+    const client = createSupabaseClient<Database>({
+      baseUrl,
+      apiKey,
+      fetch: fetchMock
+    })
+
+    const row = await client.from('posts').select().eq('id', 1).single()
+
+    expect(row).toEqual(post)
+    expect(sent(fetchMock).headers.Accept).toBe(
+      'application/vnd.pgrst.object+json'
+    )
+    expectTypeOf(row).toEqualTypeOf<{ id: number; title: string }>()
+  })
+
+  it('rejects single() when no row or several rows match', async () => {
+    const fetchMock = respondWith(noRows)
+    const client = createSupabaseClient<Database>({
+      baseUrl,
+      apiKey,
+      fetch: fetchMock
+    })
+
+    const error = await client
+      .from('posts')
+      .select()
+      .single()
+      .then(
+        () => null,
+        (reason: unknown) => reason
+      )
+
+    expect(error).toBeInstanceOf(PostgrestError)
+    expect(error).toMatchObject({
+      statusCode: 406,
+      code: 'PGRST116',
+      details: 'The result contains 0 rows'
+    })
+  })
+
+  it('resolves maybeSingle() to null when no row matches', async () => {
+    const fetchMock = respondWith(noRows)
+    const client = createSupabaseClient<Database>({
+      baseUrl,
+      apiKey,
+      fetch: fetchMock
+    })
+
+    const row = await client.from('posts').select().eq('id', 2).maybeSingle()
+
+    expect(row).toBeNull()
+    expectTypeOf(row).toEqualTypeOf<{ id: number; title: string } | null>()
+  })
+
+  it('reports 200 for maybeSingle() with no rows in result mode', async () => {
+    const fetchMock = respondWith(noRows)
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      throwOnError: false,
+      fetch: fetchMock
+    })
+
+    const result = await client.from('posts').select().maybeSingle()
+
+    expect(result).toEqual({
+      data: null,
+      error: null,
+      status: 200,
+      statusText: 'OK',
+      count: null
+    })
+  })
+
+  it('still rejects maybeSingle() when several rows match', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(
+        {
+          code: 'PGRST116',
+          details: 'The result contains 2 rows',
+          message: 'JSON object requested, multiple (or no) rows returned'
+        },
+        { status: 406 }
+      )
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await expect(
+      client.from('posts').select().maybeSingle()
+    ).rejects.toBeInstanceOf(PostgrestError)
+  })
+
+  it('returns CSV as text', async () => {
+    const fetchMock = respondWith(
+      () =>
+        new Response('id,title\n1,Hello', {
+          headers: { 'Content-Type': 'text/csv' }
+        })
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const csv = await client.from('posts').select('id,title').csv()
+
+    expect(csv).toBe('id,title\n1,Hello')
+    expect(sent(fetchMock).headers.Accept).toBe('text/csv')
+  })
+
+  it('requests GeoJSON', async () => {
+    const collection = { type: 'FeatureCollection', features: [] }
+    const fetchMock = respondWith(() => Response.json(collection))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const result = await client.from('stores').select().geojson()
+
+    expect(result).toEqual(collection)
+    expect(sent(fetchMock).headers.Accept).toBe('application/geo+json')
+  })
+
+  it('returns the query plan with explain()', async () => {
+    const fetchMock = respondWith(
+      () => new Response('Aggregate  (cost=17.65..17.66 rows=1 width=112)')
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const plan = await client
+      .from('posts')
+      .select()
+      .single()
+      .explain({ analyze: true, verbose: true })
+
+    expect(plan).toBe('Aggregate  (cost=17.65..17.66 rows=1 width=112)')
+    expect(sent(fetchMock).headers.Accept).toBe(
+      'application/vnd.pgrst.plan+text; for="application/vnd.pgrst.object+json"; options=analyze|verbose'
+    )
+    expectTypeOf(plan).toEqualTypeOf<string>()
+  })
+
+  it('parses JSON query plans', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json([{ Plan: { 'Node Type': 'Seq Scan' } }])
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const plan = await client.from('posts').select().explain({ format: 'json' })
+
+    expect(plan).toEqual([{ Plan: { 'Node Type': 'Seq Scan' } }])
+    expect(sent(fetchMock).headers.Accept).toBe(
+      'application/vnd.pgrst.plan+json; for="application/json"'
+    )
+  })
+})
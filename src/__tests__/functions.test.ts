@@ -0,0 +1,211 @@
+import { createSupabaseClient } from '../client/index'
+import { FunctionsHttpError, FunctionsRelayError, TimeoutError } from '../types'
+import { respondWith, sent } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+describe('Edge Functions', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+  const functionsUrl = `${baseUrl}/functions/v1`
+
+  describe('requests', () => {
+    it('posts JSON bodies with the user token', async () => {
+      const fetchMock = respondWith(() => Response.json({ message: 'hi' }))
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        token: 'user',
+        fetch: fetchMock
+      })
+
+      const data = await client.functions.invoke<{ message: string }>('hello', {
+        body: { name: 'Ada' }
+      })
+
+      expect(data).toEqual({ message: 'hi' })
+      expect(sent(fetchMock)).toMatchObject({
+        url: `${functionsUrl}/hello`,
+        method: 'POST',
+        body: '{"name":"Ada"}',
+        headers: {
+          Authorization: 'Bearer user',
+          'Content-Type': 'application/json'
+        }
+      })
+    })
+
+    it('sets the content type from the body', async () => {
+      const fetchMock = respondWith(() => new Response('ok'))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+      const form = new FormData()
+      form.set('file', new Blob(['a']), 'a.txt')
+
+      await client.functions.invoke('echo', { body: 'plain' })
+      await client.functions.invoke('echo', {
+        body: new Blob(['<p/>'], { type: 'text/html' })
+      })
+      await client.functions.invoke('echo', { body: new Uint8Array([1]) })
+      await client.functions.invoke('echo', {
+        body: new URLSearchParams({ a: '1' })
+      })
+      await client.functions.invoke('echo', { body: form })
+
+      expect(
+        fetchMock.mock.calls.map(
+          (_, index) => sent(fetchMock, index).headers['Content-Type']
+        )
+      ).toEqual([
+        'text/plain',
+        'text/html',
+        'application/octet-stream',
+        'application/x-www-form-urlencoded',
+        undefined
+      ])
+      expect(sent(fetchMock, 4).body).toBe(form)
+    })
+
+    it('supports other methods, custom headers and regions', async () => {
+      const fetchMock = respondWith(() => new Response(null, { status: 204 }))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const data = await client.functions.invoke('items/42', {
+        method: 'DELETE',
+        region: 'eu-west-1',
+        headers: { 'x-trace': 'abc' }
+      })
+
+      expect(data).toBeNull()
+      expect(sent(fetchMock)).toMatchObject({
+        url: `${functionsUrl}/items/42?forceFunctionRegion=eu-west-1`,
+        method: 'DELETE',
+        body: undefined,
+        headers: { 'x-region': 'eu-west-1', 'x-trace': 'abc' }
+      })
+    })
+  })
+
+  describe('responses', () => {
+    it('parses text, binary and multipart responses', async () => {
+      const responses = [
+        new Response('plain', { headers: { 'Content-Type': 'text/plain' } }),
+        new Response(new Uint8Array([1, 2]), {
+          headers: { 'Content-Type': 'application/octet-stream' }
+        }),
+        new Response(
+          '--b\r\nContent-Disposition: form-data; name="a"\r\n\r\n1\r\n--b--\r\n',
+          {
+            headers: { 'Content-Type': 'multipart/form-data; boundary=b' }
+          }
+        )
+      ]
+      const fetchMock = respondWith(() => responses.shift() ?? new Response())
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      expect(await client.functions.invoke('f')).toBe('plain')
+      const blob = await client.functions.invoke<Blob>('f')
+      expect(blob).toBeInstanceOf(Blob)
+      expect(blob.size).toBe(2)
+      const form = await client.functions.invoke<FormData>('f')
+      expect(form.get('a')).toBe('1')
+    })
+
+    it('returns event streams and stream: true as body streams', async () => {
+      const fetchMock = respondWith(
+        () =>
+          new Response('data: 1\n\ndata: 2\n\n', {
+            headers: { 'Content-Type': 'text/event-stream' }
+          })
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const events =
+        await client.functions.invoke<ReadableStream<Uint8Array>>('ticker')
+      const raw = await client.functions.invoke<ReadableStream<Uint8Array>>(
+        'ticker',
+        { stream: true }
+      )
+
+      expect(events).toBeInstanceOf(ReadableStream)
+      expect(await new Response(events).text()).toBe('data: 1\n\ndata: 2\n\n')
+      expect(raw).toBeInstanceOf(ReadableStream)
+    })
+
+    it('keeps an event stream open past the client timeout with timeout: false', async () => {
+      const encoder = new TextEncoder()
+      const fetchMock = respondWith(
+        () =>
+          new Response(
+            new ReadableStream<Uint8Array>({
+              async pull(controller) {
+                await new Promise((resolve) => setTimeout(resolve, 30))
+                controller.enqueue(encoder.encode('data: 1\n\n'))
+                controller.close()
+              }
+            }),
+            { headers: { 'Content-Type': 'text/event-stream' } }
+          )
+      )
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        timeout: 10,
+        fetch: fetchMock
+      })
+
+      const timed =
+        await client.functions.invoke<ReadableStream<Uint8Array>>('ticker')
+      const events = await client.functions.invoke<ReadableStream<Uint8Array>>(
+        'ticker',
+        { timeout: false }
+      )
+
+      await expect(new Response(timed).text()).rejects.toBeInstanceOf(
+        TimeoutError
+      )
+      expect(await new Response(events).text()).toBe('data: 1\n\n')
+    })
+  })
+
+  describe('errors', () => {
+    it('throws FunctionsHttpError with the body the function returned', async () => {
+      const fetchMock = respondWith(() =>
+        Response.json({ error: 'bad input' }, { status: 422 })
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const error: unknown = await client.functions
+        .invoke('hello')
+        .catch((caught: unknown) => caught)
+
+      expect(error).toBeInstanceOf(FunctionsHttpError)
+      expect(error).toMatchObject({
+        functionName: 'hello',
+        statusCode: 422,
+        response: { error: 'bad input' },
+        message: 'Edge Function hello returned 422'
+      })
+    })
+
+    it('throws FunctionsRelayError when the relay fails', async () => {
+      const fetchMock = respondWith(
+        () =>
+          new Response('Function not found', {
+            status: 404,
+            headers: { 'x-relay-error': 'true' }
+          })
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const error: unknown = await client.functions
+        .invoke('missing')
+        .catch((caught: unknown) => caught)
+
+      expect(error).toBeInstanceOf(FunctionsRelayError)
+      expect(error).not.toBeInstanceOf(FunctionsHttpError)
+      expect(error).toMatchObject({
+        statusCode: 404,
+        response: 'Function not found'
+      })
+    })
+  })
+})
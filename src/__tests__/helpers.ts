@@ -0,0 +1,40 @@
+import { vi } from 'vite-plus/test'
+
+export const getRequestUrl = (input: RequestInfo | URL) => {
+  if (typeof input === 'string') {
+    return input
+  }
+
+  if (input instanceof URL) {
+    return input.toString()
+  }
+
+  return input.url
+}
+
+/**
+ * A fetch mock that answers every call with a fresh response. Pass it to the
+ * client as `config.fetch`.
+ */
+export const respondWith = (response: () => Response | Promise<Response>) =>
+  vi.fn((_input: RequestInfo | URL, _init?: RequestInit) =>
+    Promise.resolve(response())
+  )
+
+/** Answers with a JSON body and status. */
+export const respondWithJson = (body: unknown, status = 200) =>
+  respondWith(() => Response.json(body, { status }))
+
+export type FetchMock = ReturnType<typeof respondWith>
+
+/** The request the client sent on the `index`th fetch call. */
+export const sent = (fetchMock: FetchMock, index = 0) => {
+  const [input, init] = fetchMock.mock.calls[index]
+  return {
+    url: getRequestUrl(input),
+    method: init?.method,
+    headers: (init?.headers ?? {}) as Record<string, string>,
+    body: init?.body,
+    json: () => JSON.parse(init?.body as string) as unknown
+  }
+}
@@ -0,0 +1,161 @@
+import { createSupabaseClient } from '../client/index'
+import type { Interceptor, InterceptorRequest } from '../types'
+import { NetworkError, PostgrestError } from '../types'
+import { CLIENT_INFO } from '../utils/constants/index'
+import { respondWithJson, sent } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+describe('Interceptors', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  it('runs in order around REST, public and auth requests', async () => {
+    const fetchMock = respondWithJson({ access_token: 'token' })
+    const order: string[] = []
+    const tag =
+      (name: string): Interceptor =>
+      async (request, next) => {
+        order.push(`${name}:request`)
+        const response = await next({
+          ...request,
+          headers: { ...request.headers, 'x-tenant': name }
+        })
+        order.push(`${name}:response`)
+        return response
+      }
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      interceptors: [tag('outer'), tag('inner')],
+      fetch: fetchMock
+    })
+
+    await client.get('posts')
+    await client.sendMagicLink('user@example.com')
+    await client.signIn('user@example.com', 'password')
+
+    expect(order.slice(0, 4)).toEqual([
+      'outer:request',
+      'inner:request',
+      'inner:response',
+      'outer:response'
+    ])
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    for (const index of [0, 1, 2]) {
+      expect(sent(fetchMock, index).headers['x-tenant']).toBe('inner')
+      expect(sent(fetchMock, index).headers.apikey).toBe(apiKey)
+    }
+  })
+
+  it('sees the default headers and serialized body', async () => {
+    const fetchMock = respondWithJson([])
+    const seen: InterceptorRequest[] = []
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token: 'user-token',
+      interceptors: [
+        (request, next) => {
+          seen.push(request)
+          return next(request)
+        }
+      ],
+      fetch: fetchMock
+    })
+
+    await client.post('posts', { title: 'Hello' })
+
+    expect(seen[0]).toEqual({
+      method: 'POST',
+      url: `${baseUrl}/rest/v1/posts`,
+      headers: {
+        apikey: apiKey,
+        Authorization: 'Bearer user-token',
+        'Content-Type': 'application/json',
+        'x-client-info': CLIENT_INFO
+      },
+      body: JSON.stringify({ title: 'Hello' })
+    })
+  })
+
+  it('can rewrite the URL and body', async () => {
+    const fetchMock = respondWithJson([])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      interceptors: [
+        (request, next) =>
+          next({
+            ...request,
+            url: request.url.replace(baseUrl, 'https://proxy.example.com'),
+            body: JSON.stringify({ title: 'Rewritten' })
+          })
+      ],
+      fetch: fetchMock
+    })
+
+    await client.post('posts', { title: 'Original' })
+
+    expect(sent(fetchMock).url).toBe('https://proxy.example.com/rest/v1/posts')
+    expect(sent(fetchMock).json()).toEqual({ title: 'Rewritten' })
+  })
+
+  it('can replace responses without reaching the network', async () => {
+    const fetchMock = respondWithJson([])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      interceptors: [
+        () => Promise.resolve(new Response('[{"id":1}]', { status: 200 }))
+      ],
+      fetch: fetchMock
+    })
+
+    expect(await client.get('posts')).toEqual([{ id: 1 }])
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('can handle errors from later steps', async () => {
+    const errors: unknown[] = []
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: () => Promise.reject(new TypeError('fetch failed')),
+      interceptors: [
+        async (request, next) => {
+          try {
+            return await next(request)
+          } catch (error) {
+            errors.push(error)
+            return new Response('[]', { status: 200 })
+          }
+        }
+      ]
+    })
+
+    expect(await client.get('posts')).toEqual([])
+    expect(errors[0]).toBeInstanceOf(NetworkError)
+    expect((errors[0] as NetworkError).cause).toBeInstanceOf(TypeError)
+  })
+
+  it('surfaces replaced error responses as SupabaseError', async () => {
+    const fetchMock = respondWithJson([])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      interceptors: [
+        () =>
+          Promise.resolve(
+            new Response('{"message":"blocked"}', { status: 403 })
+          )
+      ],
+      fetch: fetchMock
+    })
+
+    await expect(client.get('posts')).rejects.toEqual(
+      new PostgrestError('Request failed: 403 blocked', 403, {
+        message: 'blocked'
+      })
+    )
+  })
+})
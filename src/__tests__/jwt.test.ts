@@ -0,0 +1,249 @@
+import { createSupabaseClient } from '../client/index'
+import { SupabaseError } from '../types'
+import { ERROR_MESSAGES } from '../utils/constants'
+import { decodeJwt, getJwtExpiresIn, verifyJwt } from '../utils/jwt'
+import { respondWith, sent } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+const encodeSegment = (value: unknown) =>
+  base64Url(new TextEncoder().encode(JSON.stringify(value)))
+
+const sign = async (
+  header: Record<string, unknown>,
+  claims: Record<string, unknown>,
+  key: CryptoKey,
+  algorithm: AlgorithmIdentifier | EcdsaParams
+) => {
+  const input = `${encodeSegment(header)}.${encodeSegment(claims)}`
+  const signature = await crypto.subtle.sign(
+    algorithm,
+    key,
+    new TextEncoder().encode(input)
+  )
+  return `${input}.${base64Url(new Uint8Array(signature))}`
+}
+
+const createEs256Key = async (kid: string) => {
+  const pair = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify']
+  )
+  const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey)
+  return {
+    jwks: { keys: [{ ...jwk, kid, alg: 'ES256' }] },
+    sign: (claims: Record<string, unknown>) =>
+      sign({ alg: 'ES256', typ: 'JWT', kid }, claims, pair.privateKey, {
+        name: 'ECDSA',
+        hash: 'SHA-256'
+      })
+  }
+}
+
+const future = () => Math.floor(Date.now() / 1000) + 3600
+
+describe('JWT utilities', () => {
+  it('decodes the header and claims and computes the time to expiry', () => {
+    const jwt = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(
+      { sub: 'user-1', role: 'authenticated', aal: 'aal1', exp: 1_000_060 }
+    )}.c2ln`
+
+    const { header, payload } = decodeJwt(jwt)
+
+    expect(header).toEqual({ alg: 'HS256', typ: 'JWT' })
+    expect(payload).toMatchObject({ sub: 'user-1', aal: 'aal1' })
+    expect(getJwtExpiresIn(jwt, 1_000_000_000)).toBe(60)
+    expect(getJwtExpiresIn({ sub: 'user-1' })).toBeNull()
+    expect(() => decodeJwt('not-a-jwt')).toThrow(
+      new SupabaseError(ERROR_MESSAGES.INVALID_JWT)
+    )
+  })
+
+  it('verifies ES256 tokens against a JWKS', async () => {
+    const key = await createEs256Key('key-1')
+    const jwt = await key.sign({ sub: 'user-1', exp: future() })
+
+    const { payload } = await verifyJwt(jwt, { jwks: key.jwks })
+
+    expect(payload.sub).toBe('user-1')
+    const other = await createEs256Key('key-1')
+    await expect(verifyJwt(jwt, { jwks: other.jwks })).rejects.toEqual(
+      new SupabaseError(ERROR_MESSAGES.INVALID_JWT_SIGNATURE)
+    )
+    await expect(verifyJwt(jwt, { jwks: { keys: [] } })).rejects.toEqual(
+      new SupabaseError(ERROR_MESSAGES.JWKS_KEY_NOT_FOUND)
+    )
+  })
+
+  it('rejects keys and signatures Web Crypto cannot use', async () => {
+    const key = await createEs256Key('key-1')
+    const jwt = await key.sign({ sub: 'user-1', exp: future() })
+    const [jwk] = key.jwks.keys
+
+    // An EC key that is not on P-256
+    await expect(
+      verifyJwt(jwt, { jwks: { keys: [{ ...jwk, crv: 'P-384' }] } })
+    ).rejects.toEqual(new SupabaseError(ERROR_MESSAGES.INVALID_JWT_SIGNATURE))
+    await expect(
+      verifyJwt(jwt, { jwks: { keys: [{ ...jwk, x: 'AA' }] } })
+    ).rejects.toEqual(new SupabaseError(ERROR_MESSAGES.INVALID_JWT_SIGNATURE))
+  })
+
+  it('verifies RS256 tokens against a JWKS', async () => {
+    const pair = await crypto.subtle.generateKey(
+      {
+        name: 'RSASSA-PKCS1-v1_5',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256'
+      },
+      true,
+      ['sign', 'verify']
+    )
+    const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey)
+    const jwt = await sign(
+      { alg: 'RS256', kid: 'rsa' },
+      { sub: 'user-2' },
+      pair.privateKey,
+      'RSASSA-PKCS1-v1_5'
+    )
+
+    const { payload } = await verifyJwt(jwt, {
+      jwks: { keys: [{ ...jwk, kid: 'rsa' }] }
+    })
+
+    expect(payload.sub).toBe('user-2')
+  })
+
+  it('verifies HS256 tokens with the shared secret and checks expiry', async () => {
+    const secret = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode('super-secret'),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    )
+    const valid = await sign(
+      { alg: 'HS256' },
+      { exp: future() },
+      secret,
+      'HMAC'
+    )
+    const expired = await sign({ alg: 'HS256' }, { exp: 1 }, secret, 'HMAC')
+
+    await expect(
+      verifyJwt(valid, { secret: 'super-secret' })
+    ).resolves.toBeTruthy()
+    await expect(verifyJwt(valid, { secret: 'wrong' })).rejects.toEqual(
+      new SupabaseError(ERROR_MESSAGES.INVALID_JWT_SIGNATURE)
+    )
+    await expect(
+      verifyJwt(expired, { secret: 'super-secret' })
+    ).rejects.toEqual(new SupabaseError(ERROR_MESSAGES.JWT_EXPIRED))
+    // An HS256 token can't be passed off against a public JWKS
+    await expect(verifyJwt(valid, { jwks: { keys: [] } })).rejects.toEqual(
+      new SupabaseError(ERROR_MESSAGES.UNSUPPORTED_JWT_ALGORITHM)
+    )
+  })
+})
+
+describe('client.getClaims', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'sb_publishable_test'
+
+  it('verifies the current token against a cached JWKS', async () => {
+    const key = await createEs256Key('key-1')
+    const fetchMock = respondWith(() => Response.json(key.jwks))
+    const token = await key.sign({
+      sub: 'user-1',
+      role: 'authenticated',
+      exp: future()
+    })
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token,
+      fetch: fetchMock
+    })
+
+    const first = await client.getClaims()
+    await client.getClaims()
+
+    expect(first.payload).toMatchObject({
+      sub: 'user-1',
+      role: 'authenticated'
+    })
+    expect(first.header.kid).toBe('key-1')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(sent(fetchMock).url).toBe(`${baseUrl}/auth/v1/.well-known/jwks.json`)
+  })
+
+  it('refetches the JWKS when the token has an unknown key id', async () => {
+    const oldKey = await createEs256Key('old')
+    const newKey = await createEs256Key('new')
+    const fetchMock = respondWith(() => Response.json(newKey.jwks))
+    fetchMock.mockImplementationOnce(() =>
+      Promise.resolve(Response.json(oldKey.jwks))
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await client.getClaims(await oldKey.sign({ sub: 'a', exp: future() }))
+    const rotated = await client.getClaims(
+      await newKey.sign({ sub: 'b', exp: future() })
+    )
+
+    expect(rotated.payload.sub).toBe('b')
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('asks the Auth server to check HS256 tokens without a secret', async () => {
+    const fetchMock = respondWith(() => Response.json({ id: 'user-1' }))
+    const token = `${encodeSegment({ alg: 'HS256' })}.${encodeSegment({
+      sub: 'user-1'
+    })}.c2ln`
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token,
+      fetch: fetchMock
+    })
+
+    const { payload } = await client.getClaims()
+
+    expect(payload.sub).toBe('user-1')
+    expect(sent(fetchMock).url).toBe(`${baseUrl}/auth/v1/user`)
+    expect(sent(fetchMock).headers.Authorization).toBe(`Bearer ${token}`)
+  })
+
+  it('rejects unsupported algorithms before fetching the JWKS', async () => {
+    const fetchMock = respondWith(() => Response.json({ keys: [] }))
+    const token = `${encodeSegment({ alg: 'PS512', kid: 'key-1' })}.${encodeSegment(
+      { sub: 'user-1' }
+    )}.c2ln`
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token,
+      fetch: fetchMock
+    })
+
+    await expect(client.getClaims()).rejects.toEqual(
+      new SupabaseError(ERROR_MESSAGES.UNSUPPORTED_JWT_ALGORITHM)
+    )
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('rejects without a token', async () => {
+    const client = createSupabaseClient({ baseUrl, apiKey })
+
+    await expect(client.getClaims()).rejects.toEqual(
+      new SupabaseError(ERROR_MESSAGES.NO_SESSION)
+    )
+  })
+})
@@ -0,0 +1,196 @@
+import { createSupabaseClient } from '../client/index'
+import { AuthApiError } from '../types'
+import type { AuthChangeEvent } from '../types'
+import { getRequestUrl, respondWith, sent } from './helpers'
+import { describe, expect, it, vi } from 'vite-plus/test'
+
+const encodeSegment = (value: unknown) =>
+  btoa(JSON.stringify(value))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+const jwt = (claims: Record<string, unknown>) =>
+  `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(claims)}.sig`
+
+describe('Auth MFA', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'sb_publishable_test'
+  const factorsUrl = `${baseUrl}/auth/v1/factors`
+  const totp = {
+    id: 'factor-1',
+    factor_type: 'totp',
+    status: 'verified',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z'
+  }
+
+  it('enrolls, challenges and verifies a TOTP factor', async () => {
+    const aal2 = jwt({ aal: 'aal2', amr: [{ method: 'totp', timestamp: 1 }] })
+    const responses: Record<string, unknown> = {
+      [factorsUrl]: {
+        id: 'factor-1',
+        type: 'totp',
+        totp: {
+          qr_code: 'data:image/svg+xml;...',
+          secret: 'S',
+          uri: 'otpauth://'
+        }
+      },
+      [`${factorsUrl}/factor-1/challenge`]: {
+        id: 'challenge-1',
+        type: 'totp',
+        expires_at: 1700000000
+      },
+      [`${factorsUrl}/factor-1/verify`]: {
+        access_token: aal2,
+        refresh_token: 'refresh',
+        expires_in: 3600,
+        token_type: 'bearer',
+        user: { id: 'user-1', factors: [totp] }
+      }
+    }
+    const fetchMock = vi.fn((input: RequestInfo | URL, _init?: RequestInit) =>
+      Promise.resolve(Response.json(responses[getRequestUrl(input)]))
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token: jwt({ aal: 'aal1' }),
+      autoRefreshToken: true,
+      fetch: fetchMock
+    })
+    const events: AuthChangeEvent[] = []
+    client.onAuthStateChange((event) => {
+      events.push(event)
+    })
+
+    const enrolled = await client.auth.mfa.enroll({
+      factorType: 'totp',
+      friendlyName: 'Phone app'
+    })
+    await client.auth.mfa.challengeAndVerify({
+      factorId: enrolled.id,
+      code: '123456'
+    })
+
+    expect(enrolled.totp?.uri).toBe('otpauth://')
+    expect(
+      fetchMock.mock.calls.map(([, init]) => JSON.parse(init?.body as string))
+    ).toEqual([
+      { factor_type: 'totp', friendly_name: 'Phone app' },
+      {},
+      { challenge_id: 'challenge-1', code: '123456' }
+    ])
+    expect(events).toContain('MFA_CHALLENGE_VERIFIED')
+    expect(client.token).toBe(aal2)
+    await expect(
+      client.auth.mfa.getAuthenticatorAssuranceLevel()
+    ).resolves.toEqual({
+      currentLevel: 'aal2',
+      nextLevel: 'aal2',
+      currentAuthenticationMethods: [{ method: 'totp', timestamp: 1 }]
+    })
+  })
+
+  it('sends phone challenges over the chosen channel', async () => {
+    const fetchMock = respondWith(() => Response.json({ id: 'factor-2' }))
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token: 'user',
+      fetch: fetchMock
+    })
+
+    await client.auth.mfa.enroll({ factorType: 'phone', phone: '+15551234567' })
+    await client.auth.mfa.challenge({
+      factorId: 'factor-2',
+      channel: 'whatsapp'
+    })
+    await client.auth.mfa.unenroll('factor-2')
+
+    expect(sent(fetchMock).json()).toEqual({
+      factor_type: 'phone',
+      phone: '+15551234567'
+    })
+    expect(sent(fetchMock, 1).url).toBe(`${factorsUrl}/factor-2/challenge`)
+    expect(sent(fetchMock, 1).json()).toEqual({ channel: 'whatsapp' })
+    expect(sent(fetchMock, 2).method).toBe('DELETE')
+    expect(sent(fetchMock, 2).headers.Authorization).toBe('Bearer user')
+  })
+
+  it('lists verified factors and reports the next level', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json({
+        id: 'user-1',
+        factors: [
+          totp,
+          {
+            ...totp,
+            id: 'factor-2',
+            factor_type: 'phone',
+            status: 'unverified'
+          }
+        ]
+      })
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token: jwt({ aal: 'aal1', amr: [{ method: 'password', timestamp: 1 }] }),
+      fetch: fetchMock
+    })
+
+    const factors = await client.auth.mfa.listFactors()
+    const assurance = await client.auth.mfa.getAuthenticatorAssuranceLevel()
+
+    expect(factors).toEqual({ all: [totp], totp: [totp], phone: [] })
+    expect(sent(fetchMock).url).toBe(`${baseUrl}/auth/v1/user`)
+    expect(assurance).toEqual({
+      currentLevel: 'aal1',
+      nextLevel: 'aal2',
+      currentAuthenticationMethods: [{ method: 'password', timestamp: 1 }]
+    })
+  })
+
+  it('resolves to results when throwOnError is false', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(
+        { code: 'mfa_verification_failed', msg: 'Invalid TOTP code' },
+        { status: 422 }
+      )
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token: 'user',
+      throwOnError: false,
+      fetch: fetchMock
+    })
+
+    const { data, error, status } = await client.auth.mfa.verify({
+      factorId: 'factor-1',
+      challengeId: 'challenge-1',
+      code: '000000'
+    })
+
+    expect(data).toBeNull()
+    expect(error).toBeInstanceOf(AuthApiError)
+    expect(status).toBe(422)
+    await expect(
+      client.auth.mfa.unenroll('factor-1', { throwOnError: true })
+    ).rejects.toBeInstanceOf(AuthApiError)
+  })
+
+  it('has no assurance level without an access token', async () => {
+    const client = createSupabaseClient({ baseUrl, apiKey })
+
+    await expect(
+      client.auth.mfa.getAuthenticatorAssuranceLevel()
+    ).resolves.toEqual({
+      currentLevel: null,
+      nextLevel: null,
+      currentAuthenticationMethods: []
+    })
+  })
+})
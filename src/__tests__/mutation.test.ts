@@ -0,0 +1,200 @@
+import { createSupabaseClient } from '../client/index'
+import { SupabaseError } from '../types'
+import { ERROR_MESSAGES } from '../utils/constants'
+import type { FetchMock } from './helpers'
+import { respondWith, sent } from './helpers'
+import { describe, expect, it, vi } from 'vite-plus/test'
+
+// Echoes posted rows back, with a count and Location like PostgREST
+const mockInsert = () =>
+  vi.fn((_input: RequestInfo | URL, init?: RequestInit) => {
+    const headers = init?.headers as Record<string, string> | undefined
+    const posted = JSON.parse(init?.body as string) as unknown
+    const rows = Array.isArray(posted) ? posted : [posted]
+    const prefer = headers?.Prefer ?? ''
+    const body = prefer.includes('return=representation')
+      ? JSON.stringify(rows)
+      : null
+    return Promise.resolve(
+      new Response(body, {
+        status: 201,
+        headers: {
+          'Content-Range': `*/${prefer.includes('count=') ? rows.length : '*'}`,
+          Location: '/posts?id=eq.1'
+        }
+      })
+    )
+  })
+
+const sentRequests = (fetchMock: FetchMock) =>
+  fetchMock.mock.calls.map((_, index) => {
+    const request = sent(fetchMock, index)
+    return {
+      query: decodeURIComponent(new URL(request.url).search),
+      prefer: request.headers.Prefer,
+      body: request.json()
+    }
+  })
+
+describe('Insert and upsert', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  describe('insert', () => {
+    it('returns the inserted rows by default', async () => {
+      const fetchMock = mockInsert()
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const result = await client.insert('posts', { title: 'Hello' })
+
+      expect(result).toEqual({
+        data: [{ title: 'Hello' }],
+        count: null,
+        locations: ['/posts?id=eq.1']
+      })
+      expect(sentRequests(fetchMock)).toEqual([
+        { query: '', prefer: 'return=representation', body: { title: 'Hello' } }
+      ])
+    })
+
+    it('supports minimal and headers-only returns with counts', async () => {
+      const fetchMock = mockInsert()
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const minimal = await client.insert(
+        'posts',
+        [{ title: 'a' }, { title: 'b' }],
+        { returning: 'minimal', count: 'exact' }
+      )
+      const headersOnly = await client.insert(
+        'posts',
+        { title: 'c' },
+        { returning: 'headers-only', select: 'id' }
+      )
+
+      expect(minimal).toMatchObject({ data: null, count: 2 })
+      expect(headersOnly).toMatchObject({
+        data: null,
+        locations: ['/posts?id=eq.1']
+      })
+      const [first, second] = sentRequests(fetchMock)
+      expect(first.prefer).toBe('return=minimal,count=exact')
+      expect(second).toMatchObject({
+        query: '',
+        prefer: 'return=headers-only'
+      })
+    })
+
+    it('sends the union of keys as columns for bulk inserts', async () => {
+      const fetchMock = mockInsert()
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await client.insert(
+        'posts',
+        [{ title: 'a' }, { title: 'b', status: 'draft' }],
+        { defaultToNull: false, select: 'id,title' }
+      )
+
+      expect(sentRequests(fetchMock)[0]).toMatchObject({
+        query: '?select=id,title&columns="title","status"',
+        prefer: 'return=representation,missing=default'
+      })
+    })
+
+    it('splits large arrays into chunks and combines the results', async () => {
+      const fetchMock = mockInsert()
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+      const rows = Array.from({ length: 5 }, (_, id) => ({ id }))
+
+      const result = await client.insert('posts', rows, {
+        chunkSize: 2,
+        count: 'exact'
+      })
+
+      expect(result.data).toEqual(rows)
+      expect(result.count).toBe(5)
+      expect(result.locations).toHaveLength(3)
+      expect(sentRequests(fetchMock).map((request) => request.body)).toEqual([
+        [{ id: 0 }, { id: 1 }],
+        [{ id: 2 }, { id: 3 }],
+        [{ id: 4 }]
+      ])
+    })
+
+    it('stops at the first failing chunk', async () => {
+      const fetchMock = respondWith(
+        () => new Response('{"message":"duplicate key"}', { status: 409 })
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await expect(
+        client.insert('posts', [{ id: 1 }, { id: 2 }], { chunkSize: 1 })
+      ).rejects.toBeInstanceOf(SupabaseError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it.each([0, -1, 1.5, Number.NaN])(
+      'rejects a chunkSize of %s before sending',
+      async (chunkSize) => {
+        const fetchMock = mockInsert()
+        const client = createSupabaseClient({
+          baseUrl,
+          apiKey,
+          fetch: fetchMock
+        })
+
+        await expect(
+          client.insert('posts', [{ id: 1 }], { chunkSize })
+        ).rejects.toEqual(new SupabaseError(ERROR_MESSAGES.INVALID_CHUNK_SIZE))
+        expect(fetchMock).not.toHaveBeenCalled()
+      }
+    )
+  })
+
+  describe('upsert', () => {
+    it('merges duplicates on the given conflict columns', async () => {
+      const fetchMock = mockInsert()
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await client.upsert('posts', [{ slug: 'a', title: 'A' }], {
+        onConflict: ['slug', 'title']
+      })
+
+      expect(sentRequests(fetchMock)[0]).toMatchObject({
+        query: '?on_conflict=slug,title&columns="slug","title"',
+        prefer: 'return=representation,resolution=merge-duplicates'
+      })
+    })
+
+    it('can ignore duplicates', async () => {
+      const fetchMock = mockInsert()
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await client.upsert(
+        'posts',
+        { id: 1 },
+        { ignoreDuplicates: true, returning: 'minimal' }
+      )
+
+      expect(sentRequests(fetchMock)[0].prefer).toBe(
+        'return=minimal,resolution=ignore-duplicates'
+      )
+    })
+
+    it('keeps the resolution when the builder selects rows', async () => {
+      const fetchMock = mockInsert()
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const rows = await client
+        .from('posts')
+        .upsert({ id: 1, title: 'A' }, { onConflict: 'id' })
+        .select('id')
+
+      expect(rows).toEqual([{ id: 1, title: 'A' }])
+      expect(sentRequests(fetchMock)[0]).toMatchObject({
+        query: '?on_conflict=id&select=id',
+        prefer: 'resolution=merge-duplicates,return=representation'
+      })
+    })
+  })
+})
@@ -0,0 +1,148 @@
+import { createSupabaseClient } from '../client/index'
+import type { AuthChangeEvent } from '../types'
+import { respondWith, sent } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+describe('Phone and OTP auth', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'sb_publishable_test'
+  const authUrl = `${baseUrl}/auth/v1`
+  const session = {
+    access_token: 'access',
+    refresh_token: 'refresh',
+    expires_in: 3600,
+    token_type: 'bearer',
+    user: { id: 'user-1', phone: '15551234567' }
+  }
+
+  it('sends phone OTPs over the chosen channel', async () => {
+    const fetchMock = respondWith(() => Response.json({ message_id: 'm-1' }))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const result = await client.signInWithOtp(
+      { phone: '+15551234567' },
+      { channel: 'whatsapp', shouldCreateUser: false, captchaToken: 'cap' }
+    )
+
+    expect(result).toEqual({ message_id: 'm-1' })
+    expect(sent(fetchMock).url).toBe(`${authUrl}/otp`)
+    expect(sent(fetchMock).json()).toEqual({
+      phone: '+15551234567',
+      create_user: false,
+      data: {},
+      channel: 'whatsapp',
+      gotrue_meta_security: { captcha_token: 'cap' }
+    })
+  })
+
+  it('sends email OTPs with a redirect and a PKCE challenge', async () => {
+    const fetchMock = respondWith(() => Response.json({}))
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      flowType: 'pkce',
+      fetch: fetchMock
+    })
+
+    await client.signInWithOtp(
+      { email: 'ada@example.com' },
+      { emailRedirectTo: 'https://app.example.com/cb', data: { plan: 'pro' } }
+    )
+
+    expect(sent(fetchMock).url).toBe(
+      `${authUrl}/otp?redirect_to=https%3A%2F%2Fapp.example.com%2Fcb`
+    )
+    expect(sent(fetchMock).json()).toMatchObject({
+      email: 'ada@example.com',
+      create_user: true,
+      data: { plan: 'pro' },
+      code_challenge_method: 's256'
+    })
+  })
+
+  it('verifies phone codes and token hashes and emits the session', async () => {
+    const fetchMock = respondWith(() => Response.json(session))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+    const events: AuthChangeEvent[] = []
+    client.onAuthStateChange((event) => {
+      events.push(event)
+    })
+
+    const result = await client.verifyOtp({
+      phone: '+15551234567',
+      token: '123456',
+      type: 'sms'
+    })
+    await client.verifyOtp({ tokenHash: 'hash', type: 'recovery' })
+
+    expect(result.access_token).toBe('access')
+    expect(sent(fetchMock).url).toBe(`${authUrl}/verify`)
+    expect(sent(fetchMock).json()).toEqual({
+      phone: '+15551234567',
+      token: '123456',
+      type: 'sms',
+      gotrue_meta_security: {}
+    })
+    expect(sent(fetchMock, 1).json()).toEqual({
+      token_hash: 'hash',
+      type: 'recovery'
+    })
+    expect(events).toEqual([
+      'INITIAL_SESSION',
+      'SIGNED_IN',
+      'PASSWORD_RECOVERY'
+    ])
+  })
+
+  it('resends signup and phone change OTPs', async () => {
+    const fetchMock = respondWith(() => Response.json({}))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await client.resend({
+      type: 'signup',
+      email: 'ada@example.com',
+      options: { emailRedirectTo: 'https://app.example.com' }
+    })
+    await client.resend({ type: 'phone_change', phone: '+15551234567' })
+
+    expect(sent(fetchMock).url).toBe(
+      `${authUrl}/resend?redirect_to=https%3A%2F%2Fapp.example.com`
+    )
+    expect(sent(fetchMock).json()).toEqual({
+      type: 'signup',
+      email: 'ada@example.com',
+      gotrue_meta_security: {}
+    })
+    expect(sent(fetchMock, 1).url).toBe(`${authUrl}/resend`)
+    expect(sent(fetchMock, 1).json()).toEqual({
+      type: 'phone_change',
+      phone: '+15551234567',
+      gotrue_meta_security: {}
+    })
+  })
+
+  it('signs up and signs in with phone and password', async () => {
+    const fetchMock = respondWith(() => Response.json(session))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await client.signUpWithPhone('+15551234567', 'secret', {
+      data: { name: 'Ada' }
+    })
+    const signedIn = await client.signInWithPhone('+15551234567', 'secret')
+
+    expect(sent(fetchMock).url).toBe(`${authUrl}/signup`)
+    expect(sent(fetchMock).json()).toEqual({
+      phone: '+15551234567',
+      password: 'secret',
+      data: { name: 'Ada' },
+      channel: 'sms',
+      gotrue_meta_security: {}
+    })
+    expect(sent(fetchMock, 1).url).toBe(`${authUrl}/token?grant_type=password`)
+    expect(sent(fetchMock, 1).json()).toEqual({
+      phone: '+15551234567',
+      password: 'secret'
+    })
+    expect(signedIn.access_token).toBe('access')
+  })
+})
@@ -0,0 +1,255 @@
+import { createSupabaseClient } from '../client/index'
+import { SupabaseError } from '../types'
+import { parseContentRange } from '../pagination/index'
+import { ERROR_MESSAGES } from '../utils/constants'
+import { getRequestUrl, respondWith, sent } from './helpers'
+import { describe, expect, it, vi } from 'vite-plus/test'
+
+interface Post {
+  id: number
+}
+
+/**
+ * Minimal PostgREST stand-in: honors `Range`, `Prefer: count`, `limit`,
+ * `order=id.asc|desc` and `id=gt.|lt.` filters over an in-memory table.
+ * `maxRows` caps every page like PostgREST's `db-max-rows`.
+ */
+const mockPostgrest = (rows: Post[], maxRows = Infinity) =>
+  vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(getRequestUrl(input))
+    const headers = init?.headers as Record<string, string> | undefined
+    let result = [...rows]
+
+    for (const filter of url.searchParams.getAll('id')) {
+      const [operator, value] = filter.split('.')
+      result = result.filter((row) =>
+        operator === 'gt' ? row.id > Number(value) : row.id < Number(value)
+      )
+    }
+    if (url.searchParams.get('order') === 'id.desc') {
+      result.reverse()
+    }
+
+    const total = result.length
+    const count = headers?.Prefer?.startsWith('count=') ? String(total) : '*'
+    const [from, to] = (headers?.Range ?? `0-${total - 1}`)
+      .split('-')
+      .map(Number)
+    if (from > 0 && from >= total) {
+      return Promise.resolve(
+        new Response('{"code":"PGRST103"}', {
+          status: 416,
+          headers: { 'Content-Range': `*/${total}` }
+        })
+      )
+    }
+
+    const page = result.slice(from, Math.min(to + 1, from + maxRows))
+    const range = page.length ? `${from}-${from + page.length - 1}` : '*'
+    const partial = page.length < total && count !== '*'
+    return Promise.resolve(
+      new Response(JSON.stringify(page), {
+        status: partial ? 206 : 200,
+        headers: { 'Content-Range': `${range}/${count}` }
+      })
+    )
+  })
+
+const table = (size: number): Post[] =>
+  Array.from({ length: size }, (_, index) => ({ id: index + 1 }))
+
+const collect = async <T>(pages: AsyncIterable<T>): Promise<T[]> => {
+  const result: T[] = []
+  for await (const page of pages) {
+    result.push(page)
+  }
+  return result
+}
+
+describe('Pagination', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  it('parses Content-Range headers', () => {
+    expect(parseContentRange('0-24/100')).toEqual({
+      range: { from: 0, to: 24 },
+      count: 100
+    })
+    expect(parseContentRange('25-49/*')).toEqual({
+      range: { from: 25, to: 49 },
+      count: null
+    })
+    expect(parseContentRange('*/0')).toEqual({ range: null, count: 0 })
+    expect(parseContentRange(null)).toEqual({ range: null, count: null })
+  })
+
+  describe('getPage', () => {
+    it('sends Range headers and returns data, count and range', async () => {
+      const fetchMock = mockPostgrest(table(10))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const page = await client.getPage('posts', 2, 4, {
+        count: 'exact',
+        query: { select: 'id' }
+      })
+
+      expect(page).toEqual({
+        data: [{ id: 3 }, { id: 4 }, { id: 5 }],
+        count: 10,
+        range: { from: 2, to: 4 }
+      })
+      const { url, headers } = sent(fetchMock)
+      expect(url).toBe(`${baseUrl}/rest/v1/posts?select=id`)
+      expect(headers.Range).toBe('2-4')
+      expect(headers['Range-Unit']).toBe('items')
+      expect(headers.Prefer).toBe('count=exact')
+    })
+
+    it('returns an empty page for unsatisfiable ranges', async () => {
+      const fetchMock = mockPostgrest(table(3))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      expect(await client.getPage('posts', 10, 19)).toEqual({
+        data: [],
+        count: null,
+        range: null
+      })
+    })
+
+    it('still raises other errors', async () => {
+      const fetchMock = respondWith(
+        () => new Response('{"message":"denied"}', { status: 403 })
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await expect(client.getPage('posts', 0, 9)).rejects.toBeInstanceOf(
+        SupabaseError
+      )
+    })
+  })
+
+  describe('paginate', () => {
+    it('walks a table by range until exhausted', async () => {
+      const fetchMock = mockPostgrest(table(7))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const pages = await collect(client.paginate('posts', { pageSize: 3 }))
+
+      expect(pages.map((page) => page.data.map((row) => row.id))).toEqual([
+        [1, 2, 3],
+        [4, 5, 6],
+        [7]
+      ])
+      expect(pages[2].range).toEqual({ from: 6, to: 6 })
+      // Without a count only the 416 after the short page ends the walk
+      expect(fetchMock).toHaveBeenCalledTimes(4)
+    })
+
+    it('stops on a 416 when the last page is exactly full', async () => {
+      const fetchMock = mockPostgrest(table(6))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const pages = await collect(client.paginate('posts', { pageSize: 3 }))
+
+      expect(pages).toHaveLength(2)
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('uses the count to skip the final request', async () => {
+      const fetchMock = mockPostgrest(table(6))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const pages = await collect(
+        client.paginate('posts', { pageSize: 3, count: 'exact' })
+      )
+
+      expect(pages.map((page) => page.count)).toEqual([6, 6])
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('keeps walking when the server caps the page size', async () => {
+      const fetchMock = mockPostgrest(table(7), 2)
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const pages = await collect(client.paginate('posts', { pageSize: 3 }))
+
+      expect(pages.map((page) => page.data.map((row) => row.id))).toEqual([
+        [1, 2],
+        [3, 4],
+        [5, 6],
+        [7]
+      ])
+      expect(sent(fetchMock, 1).headers.Range).toBe('2-4')
+    })
+
+    it('keeps walking by keyset when the server caps the page size', async () => {
+      const fetchMock = mockPostgrest(table(5), 2)
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const pages = await collect(
+        client.paginate('posts', { pageSize: 3, cursor: 'id' })
+      )
+
+      expect(pages.map((page) => page.data.map((row) => row.id))).toEqual([
+        [1, 2],
+        [3, 4],
+        [5]
+      ])
+      expect(fetchMock).toHaveBeenCalledTimes(4)
+    })
+
+    it('yields nothing for an empty table', async () => {
+      const fetchMock = mockPostgrest([])
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      expect(await collect(client.paginate('posts'))).toEqual([])
+    })
+
+    it('walks by keyset cursor', async () => {
+      const fetchMock = mockPostgrest(table(5))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const pages = await collect(
+        client.paginate('posts', {
+          pageSize: 2,
+          cursor: { column: 'id', ascending: false },
+          count: 'exact'
+        })
+      )
+
+      expect(pages.map((page) => page.data.map((row) => row.id))).toEqual([
+        [5, 4],
+        [3, 2],
+        [1]
+      ])
+      expect(pages.map((page) => page.count)).toEqual([5, null, null])
+      const urls = fetchMock.mock.calls.map(([input]) =>
+        decodeURIComponent(getRequestUrl(input))
+      )
+      expect(urls).toEqual([
+        `${baseUrl}/rest/v1/posts?order=id.desc`,
+        `${baseUrl}/rest/v1/posts?id=lt.4&order=id.desc`,
+        `${baseUrl}/rest/v1/posts?id=lt.2&order=id.desc`
+      ])
+    })
+
+    it('throws when a keyset page lacks the cursor column', async () => {
+      const pages = [[{ title: 'a' }, { title: 'b' }], []]
+      const fetchMock = respondWith(() => Response.json(pages.shift()))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await expect(
+        collect(
+          client.paginate('posts', {
+            pageSize: 2,
+            cursor: 'id',
+            query: { select: 'title' }
+          })
+        )
+      ).rejects.toEqual(
+        new SupabaseError(`${ERROR_MESSAGES.MISSING_CURSOR_VALUE}: id`)
+      )
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+})
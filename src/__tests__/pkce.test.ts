@@ -0,0 +1,201 @@
+import { createSupabaseClient } from '../client/index'
+import type { AuthChangeEvent } from '../types'
+import { SupabaseError } from '../types'
+import {
+  generateCodeChallenge,
+  generateCodeVerifier,
+  parseAuthCallbackUrl
+} from '../utils/pkce/index'
+import { createMemoryStorage } from '../utils/storage/index'
+import { getRequestUrl } from './helpers'
+import { describe, expect, it, vi } from 'vite-plus/test'
+
+const tokenPair = {
+  access_token: 'access_1',
+  token_type: 'bearer',
+  expires_in: 3600,
+  refresh_token: 'refresh_1',
+  user: { id: 'user-1' }
+}
+
+const mockFetch = () => {
+  const bodies: Record<string, unknown>[] = []
+  const fetch = vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(getRequestUrl(input))
+    const body =
+      typeof init?.body === 'string' ? JSON.parse(init.body) : undefined
+    bodies.push({ path: url.pathname, ...body })
+    const response = url.pathname === '/auth/v1/token' ? tokenPair : {}
+    return Promise.resolve(Response.json(response))
+  })
+  return { fetch, bodies }
+}
+
+describe('PKCE', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  describe('helpers', () => {
+    it('generates random base64url verifiers', () => {
+      const first = generateCodeVerifier()
+      const second = generateCodeVerifier()
+
+      expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/)
+      expect(first).not.toBe(second)
+    })
+
+    it('derives the S256 challenge from RFC 7636', async () => {
+      const challenge = await generateCodeChallenge(
+        'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'
+      )
+
+      expect(challenge).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM')
+    })
+
+    it('parses codes and errors from callback URLs', () => {
+      expect(
+        parseAuthCallbackUrl('https://app.example.com/callback?code=abc')
+      ).toEqual({ code: 'abc', error: null })
+      expect(
+        parseAuthCallbackUrl(
+          'https://app.example.com/callback?error=access_denied&error_code=otp_expired&error_description=Link+expired'
+        )
+      ).toEqual({
+        code: null,
+        error: {
+          error: 'access_denied',
+          errorCode: 'otp_expired',
+          description: 'Link expired'
+        }
+      })
+      expect(
+        parseAuthCallbackUrl(
+          new URL('https://app.example.com/callback#error=server_error')
+        ).error
+      ).toEqual({ error: 'server_error', errorCode: null, description: null })
+    })
+  })
+
+  describe('client flow', () => {
+    it('keeps the implicit flow by default', async () => {
+      const { fetch, bodies } = mockFetch()
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch })
+
+      const { url } = await client.signInWithOAuth('github')
+      await client.sendMagicLink('user@example.com')
+
+      expect(new URL(url).searchParams.has('code_challenge')).toBe(false)
+      expect(bodies[0]).toEqual({
+        path: '/auth/v1/magiclink',
+        email: 'user@example.com'
+      })
+    })
+
+    it('sends an S256 challenge on OAuth and exchanges with the stored verifier', async () => {
+      const { fetch, bodies } = mockFetch()
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        flowType: 'pkce',
+        fetch
+      })
+
+      const { url } = await client.signInWithOAuth('github', {
+        redirectTo: 'https://app.example.com/callback'
+      })
+      const params = new URL(url).searchParams
+      expect(new URL(url).pathname).toBe('/auth/v1/authorize')
+      expect(params.get('code_challenge_method')).toBe('s256')
+
+      const session = await client.exchangeCodeForSession('auth-code')
+
+      expect(session.access_token).toBe('access_1')
+      const verifier = bodies[0].code_verifier as string
+      expect(bodies[0].auth_code).toBe('auth-code')
+      expect(await generateCodeChallenge(verifier)).toBe(
+        params.get('code_challenge')
+      )
+      await expect(
+        client.exchangeCodeForSession('auth-code')
+      ).rejects.toBeInstanceOf(SupabaseError)
+    })
+
+    it('sends challenges on sign-up, magic link and recovery requests', async () => {
+      const { fetch, bodies } = mockFetch()
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        flowType: 'pkce',
+        fetch
+      })
+
+      await client.signUp('user@example.com', 'password123')
+      await client.sendMagicLink('user@example.com')
+      await client.sendPasswordRecovery('user@example.com')
+
+      expect(bodies.map((body) => body.path)).toEqual([
+        '/auth/v1/signup',
+        '/auth/v1/magiclink',
+        '/auth/v1/recover'
+      ])
+      for (const body of bodies) {
+        expect(body.code_challenge).toMatch(/^[A-Za-z0-9_-]{43}$/)
+        expect(body.code_challenge_method).toBe('s256')
+      }
+    })
+
+    it('persists the verifier in the configured storage', async () => {
+      const { fetch, bodies } = mockFetch()
+      const storage = createMemoryStorage()
+      const before = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        flowType: 'pkce',
+        storage,
+        fetch
+      })
+      await before.sendMagicLink('user@example.com')
+
+      // A fresh client (e.g. after the redirect) finds the verifier
+      const after = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        flowType: 'pkce',
+        storage,
+        fetch
+      })
+      await after.exchangeCodeForSession('auth-code')
+
+      expect(
+        await generateCodeChallenge(bodies[1].code_verifier as string)
+      ).toBe(bodies[0].code_challenge)
+    })
+
+    it('emits PASSWORD_RECOVERY when exchanging a recovery code', async () => {
+      const { fetch } = mockFetch()
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        flowType: 'pkce',
+        fetch
+      })
+      const events: AuthChangeEvent[] = []
+      client.onAuthStateChange((event) => events.push(event))
+
+      await client.sendPasswordRecovery('user@example.com')
+      await client.exchangeCodeForSession('auth-code')
+
+      expect(events).toContain('PASSWORD_RECOVERY')
+      expect(events).not.toContain('SIGNED_IN')
+    })
+
+    it('sends an explicit verifier as given', async () => {
+      const { fetch, bodies } = mockFetch()
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch })
+
+      await client.exchangeCodeForSession('auth-code', 'explicit-verifier')
+
+      expect(bodies[0].code_verifier).toBe('explicit-verifier')
+    })
+  })
+})
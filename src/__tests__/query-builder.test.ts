@@ -0,0 +1,240 @@
+import { createSupabaseClient } from '../client/index'
+import type { SupabaseClient } from '../types'
+import { SupabaseError } from '../types'
+import { getRequestUrl } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+interface CapturedRequest {
+  url: URL
+  init?: RequestInit
+}
+
+const getHeader = (request: CapturedRequest, name: string) => {
+  const headers = request.init?.headers as Record<string, string> | undefined
+  return headers?.[name]
+}
+
+describe('Query builder', () => {
+  let client: SupabaseClient
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+  const token = 'test_token'
+
+  // Answers every request with `body` and records what the client sent
+  const mockFetch = (body: unknown, status = 200) => {
+    const requests: CapturedRequest[] = []
+    client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token,
+      fetch: (input, init) => {
+        requests.push({ url: new URL(getRequestUrl(input)), init })
+        const text = body === null ? null : JSON.stringify(body)
+        return Promise.resolve(new Response(text, { status }))
+      }
+    })
+    return requests
+  }
+
+  describe('select', () => {
+    it('builds a filtered, ordered and limited query under /rest/v1', async () => {
+      const rows = [{ id: 1, title: 'Hello' }]
+      const requests = mockFetch(rows)
+
+      const result = await client
+        .from('posts')
+        .select('id,title')
+        .eq('status', 'published')
+        .order('created_at', { ascending: false })
+        .limit(10)
+
+      expect(result).toEqual(rows)
+      expect(requests).toHaveLength(1)
+      const [{ url, init }] = requests
+      expect(url.pathname).toBe('/rest/v1/posts')
+      expect(url.searchParams.get('select')).toBe('id,title')
+      expect(url.searchParams.get('status')).toBe('eq.published')
+      expect(url.searchParams.get('order')).toBe('created_at.desc')
+      expect(url.searchParams.get('limit')).toBe('10')
+      expect(init?.method).toBe('GET')
+      expect(getHeader(requests[0], 'Authorization')).toBe(`Bearer ${token}`)
+    })
+
+    it('does not send a request until awaited', () => {
+      const requests = mockFetch([])
+
+      client.from('posts').select().eq('id', 1)
+
+      expect(requests).toHaveLength(0)
+    })
+
+    it('encodes comparison, pattern and null operators', async () => {
+      const requests = mockFetch([])
+
+      await client
+        .from('posts')
+        .select()
+        .neq('id', 1)
+        .gt('views', 10)
+        .gte('likes', 2)
+        .lt('rank', 5)
+        .lte('score', 9)
+        .like('title', '%hello%')
+        .ilike('body', '%world%')
+        .is('deleted_at', null)
+        .isDistinct('author', 'me')
+
+      const params = requests[0].url.searchParams
+      expect(params.get('id')).toBe('neq.1')
+      expect(params.get('views')).toBe('gt.10')
+      expect(params.get('likes')).toBe('gte.2')
+      expect(params.get('rank')).toBe('lt.5')
+      expect(params.get('score')).toBe('lte.9')
+      expect(params.get('title')).toBe('like.%hello%')
+      expect(params.get('body')).toBe('ilike.%world%')
+      expect(params.get('deleted_at')).toBe('is.null')
+      expect(params.get('author')).toBe('isdistinct.me')
+    })
+
+    it('quotes reserved characters in list values', async () => {
+      const requests = mockFetch([])
+
+      await client
+        .from('posts')
+        .select()
+        .in('tag', ['a,b', 'plain', 'say "hi"', 3])
+
+      expect(requests[0].url.searchParams.get('tag')).toBe(
+        'in.("a,b",plain,"say \\"hi\\"",3)'
+      )
+    })
+
+    it('encodes array, json and range operators', async () => {
+      const requests = mockFetch([])
+
+      await client
+        .from('events')
+        .select()
+        .contains('tags', ['x', 'y'])
+        .containedBy('meta', { a: 1 })
+        .overlaps('labels', ['z'])
+        .rangeGt('during', '[2000-01-01,2000-01-02)')
+        .rangeGte('span', '[1,5)')
+        .rangeLt('window', '[1,2)')
+        .rangeLte('slot', '[3,4)')
+        .rangeAdjacent('shift', '[5,6)')
+
+      const params = requests[0].url.searchParams
+      expect(params.get('tags')).toBe('cs.{x,y}')
+      expect(params.get('meta')).toBe('cd.{"a":1}')
+      expect(params.get('labels')).toBe('ov.{z}')
+      expect(params.get('during')).toBe('sr.[2000-01-01,2000-01-02)')
+      expect(params.get('span')).toBe('nxl.[1,5)')
+      expect(params.get('window')).toBe('sl.[1,2)')
+      expect(params.get('slot')).toBe('nxr.[3,4)')
+      expect(params.get('shift')).toBe('adj.[5,6)')
+    })
+
+    it('supports repeated filters on the same column', async () => {
+      const requests = mockFetch([])
+
+      await client.from('posts').select().gt('id', 1).lt('id', 10)
+
+      expect(requests[0].url.searchParams.getAll('id')).toEqual([
+        'gt.1',
+        'lt.10'
+      ])
+    })
+
+    it('encodes not, or, and, text search and match', async () => {
+      const requests = mockFetch([])
+
+      await client
+        .from('posts')
+        .select('*, comments(*)')
+        .not('status', 'in', ['draft', 'archived'])
+        .or('id.eq.1,title.ilike.*x*')
+        .and('views.gt.1,views.lt.9')
+        .or('approved.eq.true', { foreignTable: 'comments' })
+        .textSearch('body', "'fat' & 'cat'", {
+          config: 'english',
+          type: 'websearch'
+        })
+        .match({ author: 'me', year: 2024 })
+
+      const params = requests[0].url.searchParams
+      expect(params.get('status')).toBe('not.in.(draft,archived)')
+      expect(params.get('or')).toBe('(id.eq.1,title.ilike.*x*)')
+      expect(params.get('and')).toBe('(views.gt.1,views.lt.9)')
+      expect(params.get('comments.or')).toBe('(approved.eq.true)')
+      expect(params.get('body')).toBe("wfts(english).'fat' & 'cat'")
+      expect(params.get('author')).toBe('eq.me')
+      expect(params.get('year')).toBe('eq.2024')
+    })
+
+    it('combines multiple orders and converts ranges to offset/limit', async () => {
+      const requests = mockFetch([])
+
+      await client
+        .from('posts')
+        .select()
+        .order('pinned', { ascending: false, nullsFirst: false })
+        .order('id')
+        .range(20, 29)
+
+      const params = requests[0].url.searchParams
+      expect(params.get('order')).toBe('pinned.desc.nullslast,id.asc')
+      expect(params.get('offset')).toBe('20')
+      expect(params.get('limit')).toBe('10')
+    })
+
+    it('rejects with SupabaseError on HTTP errors', async () => {
+      mockFetch({ message: 'relation "nope" does not exist' }, 404)
+
+      const query = client.from('nope').select()
+
+      await expect(query).rejects.toBeInstanceOf(SupabaseError)
+      await expect(query).rejects.toThrow('relation "nope" does not exist')
+    })
+  })
+
+  describe('mutations', () => {
+    it('inserts with minimal return by default', async () => {
+      const requests = mockFetch(null, 201)
+
+      const result = await client.from('posts').insert({ title: 'New' })
+
+      expect(result).toBeNull()
+      expect(requests[0].init?.method).toBe('POST')
+      expect(requests[0].init?.body).toBe(JSON.stringify({ title: 'New' }))
+      expect(getHeader(requests[0], 'Prefer')).toBe('return=minimal')
+    })
+
+    it('returns the inserted rows when select is chained', async () => {
+      const rows = [{ id: 1, title: 'New' }]
+      const requests = mockFetch(rows, 201)
+
+      const result = await client
+        .from('posts')
+        .insert([{ title: 'New' }])
+        .select('id,title')
+
+      expect(result).toEqual(rows)
+      expect(requests[0].url.searchParams.get('select')).toBe('id,title')
+      expect(getHeader(requests[0], 'Prefer')).toBe('return=representation')
+    })
+
+    it('updates and deletes filtered rows', async () => {
+      const requests = mockFetch(null, 204)
+
+      await client.from('posts').update({ title: 'Edited' }).eq('id', 1)
+      await client.from('posts').delete().in('id', [2, 3])
+
+      expect(requests[0].init?.method).toBe('PATCH')
+      expect(requests[0].url.searchParams.get('id')).toBe('eq.1')
+      expect(requests[1].init?.method).toBe('DELETE')
+      expect(requests[1].init?.body).toBeUndefined()
+      expect(requests[1].url.searchParams.get('id')).toBe('in.(2,3)')
+    })
+  })
+})
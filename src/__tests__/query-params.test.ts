@@ -0,0 +1,161 @@
+import { createSupabaseClient } from '../client/index'
+import { formatQueryParam } from '../query/index'
+import { SupabaseError } from '../types'
+import { ERROR_MESSAGES } from '../utils/constants'
+import { respondWith, sent } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+type Database = {
+  public: {
+    Tables: {
+      posts: {
+        Row: { id: number; title: string; published: boolean }
+        Insert: { id?: number; title: string; published?: boolean }
+        Update: { id?: number; title?: string; published?: boolean }
+      }
+    }
+    Views: Record<never, never>
+    Functions: Record<never, never>
+  }
+}
+
+describe('Query parameters', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'sb_publishable_test'
+
+  it('keeps strings as raw PostgREST filters', () => {
+    expect(formatQueryParam('status', 'eq.published')).toBe('eq.published')
+    expect(formatQueryParam('select', 'id,title')).toBe('id,title')
+    expect(formatQueryParam('status', undefined)).toBeUndefined()
+  })
+
+  it('encodes scalars, null, dates and arrays as filters', () => {
+    const date = new Date('2026-01-02T03:04:05.000Z')
+
+    expect(formatQueryParam('id', 10)).toBe('eq.10')
+    expect(formatQueryParam('published', false)).toBe('eq.false')
+    expect(formatQueryParam('deleted_at', null)).toBe('is.null')
+    expect(formatQueryParam('created_at', date)).toBe(
+      'eq.2026-01-02T03:04:05.000Z'
+    )
+    expect(formatQueryParam('tag', ['a,b', 'c', 'say "hi"'])).toBe(
+      'in.("a,b",c,"say \\"hi\\"")'
+    )
+  })
+
+  it('encodes operator expressions', () => {
+    expect(formatQueryParam('views', { op: 'gte', value: 100 })).toBe('gte.100')
+    expect(
+      formatQueryParam('status', {
+        op: 'in',
+        value: ['draft', 'new'],
+        not: true
+      })
+    ).toBe('not.in.(draft,new)')
+    expect(formatQueryParam('tags', { op: 'cs', value: ['ts', 'js'] })).toBe(
+      'cs.{ts,js}'
+    )
+  })
+
+  it('sends keyword numbers as they are', () => {
+    expect(formatQueryParam('limit', 10)).toBe('10')
+    expect(formatQueryParam('comments.offset', 20)).toBe('20')
+  })
+
+  it('builds or/and trees with quoted values', () => {
+    expect(
+      formatQueryParam('or', [
+        { status: 'eq.draft' },
+        { title: { op: 'ilike', value: '*a, b*' } },
+        { and: [{ views: { op: 'gt', value: 10 } }, { pinned: true }] }
+      ])
+    ).toBe(
+      '(status.eq.draft,title.ilike."*a, b*",and(views.gt.10,pinned.eq.true))'
+    )
+    expect(formatQueryParam('comments.and', [{ id: [1, 2] }])).toBe(
+      '(id.in.(1,2))'
+    )
+  })
+
+  it('throws instead of dropping unsupported values', () => {
+    const invalid = (key: string, value: unknown) => () =>
+      formatQueryParam(key, value as never)
+    const error = new SupabaseError(`${ERROR_MESSAGES.INVALID_QUERY_PARAM}: id`)
+
+    expect(invalid('id', { nested: true })).toThrow(error)
+    expect(invalid('id', Number.NaN)).toThrow(error)
+    expect(invalid('id', new Date('nope'))).toThrow(error)
+    expect(invalid('id', [{ a: 1 }])).toThrow(error)
+    expect(invalid('limit', true)).toThrow(SupabaseError)
+    expect(invalid('or', 'ok')).not.toThrow()
+    expect(invalid('or', { id: 1 })).toThrow(SupabaseError)
+  })
+
+  it('sends structured values from client methods', async () => {
+    const fetchMock = respondWith(() => Response.json([]))
+    const client = createSupabaseClient<Database>({
+      baseUrl,
+      apiKey,
+      fetch: fetchMock
+    })
+
+    await client.get('posts', {
+      select: 'id,title',
+      published: true,
+      id: [1, 2, 3],
+      limit: 10,
+      or: [{ title: 'ilike.*ts*' }, { id: { op: 'lt', value: 5 } }]
+    })
+    await client.del('posts', 'id', 7)
+    await expect(
+      client.get('posts', { id: { bad: 1 } as never })
+    ).rejects.toBeInstanceOf(SupabaseError)
+
+    const url = new URL(sent(fetchMock).url)
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      select: 'id,title',
+      published: 'eq.true',
+      id: 'in.(1,2,3)',
+      limit: '10',
+      or: '(title.ilike.*ts*,id.lt.5)'
+    })
+    expect(new URL(sent(fetchMock, 1).url).searchParams.get('id')).toBe('eq.7')
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('leaves query values for other services unfiltered', async () => {
+    const fetchMock = respondWith(() => Response.json([]))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await client.request('GET', '/storage/v1/bucket', undefined, {
+      limit: 10,
+      public: true
+    })
+    const { url } = client.getOAuthSignInUrl('google', {
+      queryParams: { prompt: 'consent', max_age: '3600' }
+    })
+
+    expect(sent(fetchMock).url).toBe(
+      `${baseUrl}/storage/v1/bucket?limit=10&public=true`
+    )
+    expect(Object.fromEntries(new URL(url).searchParams)).toEqual({
+      provider: 'google',
+      prompt: 'consent',
+      max_age: '3600'
+    })
+  })
+
+  it('rejects values that do not fit the column type', () => {
+    const client = createSupabaseClient<Database>({ baseUrl, apiKey })
+    const reject = () => {
+      // @ts-expect-error id is a number column
+      void client.get('posts', { id: true })
+      // @ts-expect-error unknown column in an or branch
+      void client.get('posts', { or: [{ nope: 1 }] })
+      // @ts-expect-error limit is not a filter
+      void client.get('posts', { limit: [1] })
+    }
+
+    expect(reject).toBeTypeOf('function')
+  })
+})
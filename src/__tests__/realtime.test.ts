@@ -0,0 +1,522 @@
+import { createSupabaseClient } from '../client/index'
+import { createMemoryStorage, serializeSession } from '../utils/storage'
+import type {
+  PostgresChangesPayload,
+  PresenceJoin,
+  RealtimeSocket,
+  RealtimeSocketConstructor,
+  RealtimeSubscribeStatus
+} from '../types'
+import {
+  afterEach,
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+  vi
+} from 'vite-plus/test'
+
+interface Message {
+  topic: string
+  event: string
+  payload: Record<string, unknown>
+  ref: string | null
+  join_ref?: string | null
+}
+
+interface JoinConfig {
+  broadcast: { self: boolean }
+  presence: { key: string }
+  postgres_changes: Record<string, unknown>[]
+}
+
+/**
+ * In-memory Phoenix server: answers joins, heartbeats and leaves, relays
+ * broadcasts and keeps presence per topic. Messages are delivered on a
+ * microtask, like a network round trip.
+ */
+const createRealtimeServer = () => {
+  const sockets: FakeSocket[] = []
+  const presence = new Map<string, Record<string, Record<string, unknown>[]>>()
+  let nextId = 100
+  let nextPresenceRef = 0
+  let answerHeartbeats = true
+
+  class FakeSocket implements RealtimeSocket {
+    readyState = 0
+    onopen: ((event: Event) => void) | null = null
+    onmessage: ((event: MessageEvent) => void) | null = null
+    onclose: ((event: CloseEvent) => void) | null = null
+    onerror: ((event: Event) => void) | null = null
+    sent: Message[] = []
+    joined = new Map<string, JoinConfig>()
+
+    constructor(readonly url: string) {
+      sockets.push(this)
+      queueMicrotask(() => {
+        this.readyState = 1
+        this.onopen?.(new Event('open'))
+      })
+    }
+
+    send(data: string) {
+      const message = JSON.parse(data) as Message
+      this.sent.push(message)
+      handle(this, message)
+    }
+
+    close() {
+      if (this.readyState === 3) {
+        return
+      }
+      this.readyState = 3
+      this.joined.clear()
+      this.onclose?.(new Event('close') as CloseEvent)
+    }
+
+    receive(message: Message) {
+      queueMicrotask(() => {
+        if (this.readyState === 1) {
+          this.onmessage?.(
+            new MessageEvent('message', { data: JSON.stringify(message) })
+          )
+        }
+      })
+    }
+  }
+
+  const subscribers = (topic: string) =>
+    sockets.filter((socket) => socket.joined.has(topic))
+
+  const emit = (topic: string, event: string, payload: object) => {
+    for (const socket of subscribers(topic)) {
+      socket.receive({ topic, event, payload: { ...payload }, ref: null })
+    }
+  }
+
+  function handle(socket: FakeSocket, message: Message) {
+    const { topic, event, payload, ref } = message
+    const reply = (response: object = {}) =>
+      socket.receive({
+        topic,
+        event: 'phx_reply',
+        payload: { status: 'ok', response },
+        ref
+      })
+
+    switch (event) {
+      case 'heartbeat':
+        if (answerHeartbeats) {
+          reply()
+        }
+        break
+      case 'phx_join': {
+        const config = payload.config as JoinConfig
+        socket.joined.set(topic, config)
+        reply({
+          postgres_changes: config.postgres_changes.map((change) => ({
+            ...change,
+            id: nextId++
+          }))
+        })
+        socket.receive({
+          topic,
+          event: 'presence_state',
+          payload: Object.fromEntries(
+            Object.entries(presence.get(topic) ?? {}).map(([key, metas]) => [
+              key,
+              { metas }
+            ])
+          ),
+          ref: null
+        })
+        break
+      }
+      case 'phx_leave':
+        socket.joined.delete(topic)
+        reply()
+        break
+      case 'broadcast':
+        for (const other of subscribers(topic)) {
+          if (other !== socket || other.joined.get(topic)?.broadcast.self) {
+            other.receive({ topic, event, payload, ref: null })
+          }
+        }
+        break
+      case 'presence': {
+        const key = socket.joined.get(topic)?.presence.key ?? ''
+        const state = presence.get(topic) ?? {}
+        presence.set(topic, state)
+        if (payload.event === 'track') {
+          const meta = {
+            ...(payload.payload as object),
+            phx_ref: `p${++nextPresenceRef}`
+          }
+          state[key] = [meta]
+          emit(topic, 'presence_diff', {
+            joins: { [key]: { metas: [meta] } },
+            leaves: {}
+          })
+        } else {
+          const metas = state[key] ?? []
+          delete state[key]
+          emit(topic, 'presence_diff', {
+            joins: {},
+            leaves: { [key]: { metas } }
+          })
+        }
+        reply()
+        break
+      }
+    }
+  }
+
+  return {
+    WebSocket: FakeSocket as RealtimeSocketConstructor,
+    sockets,
+    emit,
+    ignoreHeartbeats() {
+      answerHeartbeats = false
+    },
+    // Drops every connection without a close handshake
+    dropConnections() {
+      for (const socket of sockets) {
+        socket.close()
+      }
+    },
+    sentEvents: (index = 0) =>
+      (sockets[index]?.sent ?? []).map((message) => message.event)
+  }
+}
+
+describe('Realtime', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('accepts the standard WebSocket constructor', () => {
+    expectTypeOf<typeof WebSocket>().toExtend<RealtimeSocketConstructor>()
+  })
+
+  it('joins with the access token and delivers matching postgres changes', async () => {
+    const server = createRealtimeServer()
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token: 'user-token',
+      realtime: { WebSocket: server.WebSocket }
+    })
+    const statuses: RealtimeSubscribeStatus[] = []
+    const inserts: PostgresChangesPayload<{ id: number }>[] = []
+    const comments = vi.fn()
+
+    client
+      .channel('db')
+      .on<{ id: number }>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'posts' },
+        (payload) => inserts.push(payload)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'comments',
+          filter: 'post_id=eq.1'
+        },
+        comments
+      )
+      .subscribe((status) => statuses.push(status))
+
+    await vi.waitFor(() => expect(statuses).toEqual(['SUBSCRIBED']))
+    const socket = server.sockets[0]
+    expect(socket.url).toBe(
+      'wss://example.supabase.co/realtime/v1/websocket?apikey=test_api_key&vsn=1.0.0'
+    )
+    expect(socket.sent[0]).toMatchObject({
+      topic: 'realtime:db',
+      event: 'phx_join',
+      payload: {
+        access_token: 'user-token',
+        config: {
+          broadcast: { ack: false, self: false },
+          presence: { key: '' },
+          private: false,
+          postgres_changes: [
+            { event: 'INSERT', schema: 'public', table: 'posts' },
+            {
+              event: '*',
+              schema: 'public',
+              table: 'comments',
+              filter: 'post_id=eq.1'
+            }
+          ]
+        }
+      }
+    })
+
+    server.emit('realtime:db', 'postgres_changes', {
+      ids: [100],
+      data: {
+        type: 'INSERT',
+        schema: 'public',
+        table: 'posts',
+        commit_timestamp: '2026-01-01T00:00:00Z',
+        record: { id: 7 },
+        old_record: null,
+        errors: null
+      }
+    })
+
+    await vi.waitFor(() => expect(inserts).toHaveLength(1))
+    expect(inserts[0]).toEqual({
+      schema: 'public',
+      table: 'posts',
+      commit_timestamp: '2026-01-01T00:00:00Z',
+      eventType: 'INSERT',
+      new: { id: 7 },
+      old: {},
+      errors: null
+    })
+    expect(comments).not.toHaveBeenCalled()
+
+    await client.removeAllChannels()
+  })
+
+  it('sends and receives broadcasts between clients', async () => {
+    const server = createRealtimeServer()
+    const create = () =>
+      createSupabaseClient({
+        baseUrl,
+        apiKey,
+        realtime: { WebSocket: server.WebSocket }
+      })
+    const alice = create()
+    const bob = create()
+    const received: unknown[] = []
+    const echoed: unknown[] = []
+
+    const aliceRoom = alice
+      .channel('room', { broadcast: { self: true } })
+      .on('broadcast', { event: 'cursor' }, (message) => echoed.push(message))
+      .subscribe()
+    bob
+      .channel('room')
+      .on<{ x: number }>('broadcast', { event: 'cursor' }, (message) =>
+        received.push(message.payload)
+      )
+      .subscribe()
+
+    // Sent once the channel has joined
+    const status = await aliceRoom.send({
+      type: 'broadcast',
+      event: 'cursor',
+      payload: { x: 1 }
+    })
+    await aliceRoom.send({ type: 'broadcast', event: 'other', payload: {} })
+
+    expect(status).toBe('ok')
+    await vi.waitFor(() => expect(received).toEqual([{ x: 1 }]))
+    expect(echoed).toEqual([
+      { type: 'broadcast', event: 'cursor', payload: { x: 1 } }
+    ])
+
+    await alice.removeAllChannels()
+    await bob.removeAllChannels()
+  })
+
+  it('tracks presence and keeps the state in sync', async () => {
+    const server = createRealtimeServer()
+    const create = () =>
+      createSupabaseClient({
+        baseUrl,
+        apiKey,
+        realtime: { WebSocket: server.WebSocket }
+      })
+    const alice = create()
+    const bob = create()
+    const joins: PresenceJoin[] = []
+    const leaves: string[] = []
+    const syncs = vi.fn()
+
+    const aliceLobby = alice
+      .channel('lobby', { presence: { key: 'alice' } })
+      .subscribe()
+    const bobLobby = bob
+      .channel('lobby', { presence: { key: 'bob' } })
+      .on('presence', { event: 'sync' }, syncs)
+      .on('presence', { event: 'join' }, (change) => joins.push(change))
+      .on('presence', { event: 'leave' }, (change) => leaves.push(change.key))
+      .subscribe()
+
+    expect(await aliceLobby.track({ status: 'online' })).toBe('ok')
+    await vi.waitFor(() => expect(joins).toHaveLength(1))
+
+    expect(joins[0]).toMatchObject({
+      key: 'alice',
+      currentPresences: [],
+      newPresences: [{ status: 'online', presence_ref: 'p1' }]
+    })
+    expect(bobLobby.presenceState()).toEqual({
+      alice: [{ status: 'online', presence_ref: 'p1' }]
+    })
+
+    // A client joining later receives the full state
+    const carol = create()
+    const carolLobby = carol.channel('lobby').subscribe()
+    await vi.waitFor(() =>
+      expect(Object.keys(carolLobby.presenceState())).toEqual(['alice'])
+    )
+
+    await aliceLobby.untrack()
+    await vi.waitFor(() => expect(leaves).toEqual(['alice']))
+    expect(bobLobby.presenceState()).toEqual({})
+    expect(syncs).toHaveBeenCalled()
+
+    await Promise.all(
+      [alice, bob, carol].map((client) => client.removeAllChannels())
+    )
+  })
+
+  it('sends a new access token to joined channels when it changes', async () => {
+    const server = createRealtimeServer()
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token: 'first',
+      realtime: { WebSocket: server.WebSocket }
+    })
+    const statuses: RealtimeSubscribeStatus[] = []
+    client.channel('db').subscribe((status) => statuses.push(status))
+    await vi.waitFor(() => expect(statuses).toEqual(['SUBSCRIBED']))
+
+    client.setToken('second')
+
+    expect(server.sockets[0].sent.at(-1)).toMatchObject({
+      topic: 'realtime:db',
+      event: 'access_token',
+      payload: { access_token: 'second' }
+    })
+
+    await client.removeAllChannels()
+  })
+
+  it('joins with a session restored from storage', async () => {
+    const server = createRealtimeServer()
+    const storage = createMemoryStorage()
+    await storage.set(
+      'sb-example-auth-token',
+      serializeSession({
+        access_token: 'stored-token',
+        token_type: 'bearer',
+        expires_in: 3600,
+        expires_at: Math.floor(Date.now() / 1000) + 3600,
+        refresh_token: 'refresh'
+      })
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      storage,
+      realtime: { WebSocket: server.WebSocket }
+    })
+    await client.initialize()
+    const statuses: RealtimeSubscribeStatus[] = []
+
+    client.channel('db').subscribe((status) => statuses.push(status))
+
+    await vi.waitFor(() => expect(statuses).toEqual(['SUBSCRIBED']))
+    expect(server.sockets[0].sent[0]).toMatchObject({
+      event: 'phx_join',
+      payload: { access_token: 'stored-token' }
+    })
+
+    await client.removeAllChannels()
+  })
+
+  it('reconnects with backoff and rejoins after the connection drops', async () => {
+    vi.useFakeTimers()
+    const server = createRealtimeServer()
+    const reconnectAfterMs = vi.fn((tries: number) => tries * 1000)
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      realtime: { WebSocket: server.WebSocket, reconnectAfterMs }
+    })
+    const statuses: RealtimeSubscribeStatus[] = []
+    client.channel('db').subscribe((status) => statuses.push(status))
+    await vi.advanceTimersByTimeAsync(0)
+
+    server.dropConnections()
+    expect(statuses).toEqual(['SUBSCRIBED', 'CHANNEL_ERROR'])
+    await vi.advanceTimersByTimeAsync(999)
+    expect(server.sockets).toHaveLength(1)
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect(reconnectAfterMs).toHaveBeenCalledWith(1)
+    expect(server.sockets).toHaveLength(2)
+    expect(statuses).toEqual(['SUBSCRIBED', 'CHANNEL_ERROR', 'SUBSCRIBED'])
+    expect(server.sentEvents(1)).toEqual(['phx_join'])
+
+    await client.removeAllChannels()
+    expect(client.realtime.isConnected()).toBe(false)
+  })
+
+  it('reconnects when heartbeats go unanswered', async () => {
+    vi.useFakeTimers()
+    const server = createRealtimeServer()
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      realtime: { WebSocket: server.WebSocket, heartbeatIntervalMs: 100 }
+    })
+    client.channel('db').subscribe()
+    await vi.advanceTimersByTimeAsync(100)
+    expect(server.sentEvents()).toEqual(['phx_join', 'heartbeat'])
+
+    server.ignoreHeartbeats()
+    await vi.advanceTimersByTimeAsync(200)
+    expect(server.sockets[0].readyState).toBe(3)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(server.sockets).toHaveLength(2)
+    expect(server.sentEvents(1)).toEqual(['phx_join'])
+
+    await client.removeAllChannels()
+  })
+
+  it('leaves channels and closes the socket after the last one', async () => {
+    const server = createRealtimeServer()
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      realtime: { WebSocket: server.WebSocket }
+    })
+    const statuses: RealtimeSubscribeStatus[] = []
+    const first = client
+      .channel('a')
+      .subscribe((status) => statuses.push(status))
+    const second = client.channel('b').subscribe()
+    await vi.waitFor(() => expect(second.state).toBe('joined'))
+
+    expect(await client.removeChannel(first)).toBe('ok')
+    expect(statuses).toEqual(['SUBSCRIBED', 'CLOSED'])
+    expect(client.realtime.getChannels()).toEqual([second])
+    expect(client.realtime.isConnected()).toBe(true)
+
+    await client.removeChannel(second)
+    expect(server.sentEvents()).toEqual([
+      'phx_join',
+      'phx_join',
+      'phx_leave',
+      'phx_leave'
+    ])
+    expect(client.realtime.isConnected()).toBe(false)
+  })
+})
@@ -0,0 +1,184 @@
+import { createSupabaseClient } from '../client/index'
+import {
+  AuthApiError,
+  isAuthApiError,
+  NetworkError,
+  PostgrestError
+} from '../types'
+import { respondWith } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+describe('Result mode', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'sb_publishable_test'
+  const posts = [{ id: 1, title: 'Hello' }]
+
+  it('resolves REST calls to data, status and count', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(posts, {
+        status: 206,
+        statusText: 'Partial Content',
+        headers: { 'Content-Range': '0-0/42' }
+      })
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      throwOnError: false,
+      fetch: fetchMock
+    })
+
+    const result = await client.get('posts', { select: 'id,title' })
+
+    expect(result).toEqual({
+      data: posts,
+      error: null,
+      status: 206,
+      statusText: 'Partial Content',
+      count: 42
+    })
+  })
+
+  it('resolves failures to a typed error instead of throwing', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(
+        { code: '42P01', message: 'relation "nope" does not exist' },
+        { status: 404, statusText: 'Not Found' }
+      )
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      throwOnError: false,
+      fetch: fetchMock
+    })
+
+    const { data, error, status, statusText, count } = await client.get('nope')
+
+    expect(data).toBeNull()
+    expect(error).toBeInstanceOf(PostgrestError)
+    expect(error).toMatchObject({ code: '42P01', statusCode: 404 })
+    expect({ status, statusText, count }).toEqual({
+      status: 404,
+      statusText: 'Not Found',
+      count: null
+    })
+  })
+
+  it('lets a single call opt out of throwing', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(
+        { error_code: 'invalid_credentials', msg: 'Invalid login credentials' },
+        { status: 400 }
+      )
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const result = await client.signIn('ada@example.com', 'nope', {
+      throwOnError: false
+    })
+
+    expect(result.error).toBeInstanceOf(AuthApiError)
+    expect(isAuthApiError(result.error) && result.error.code).toBe(
+      'invalid_credentials'
+    )
+    expect(result.status).toBe(400)
+    await expect(client.signIn('ada@example.com', 'nope')).rejects.toThrow(
+      AuthApiError
+    )
+  })
+
+  it('lets a single call keep throwing in result mode', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json({ message: 'denied' }, { status: 403 })
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      throwOnError: false,
+      fetch: fetchMock
+    })
+
+    await expect(client.getUser({ throwOnError: true })).rejects.toBeInstanceOf(
+      AuthApiError
+    )
+  })
+
+  it('reports network failures with status 0', async () => {
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: () => Promise.reject(new TypeError('fetch failed')),
+      throwOnError: false
+    })
+
+    const result = await client.post('posts', { title: 'Hello' })
+
+    expect(result.error).toBeInstanceOf(NetworkError)
+    expect(result).toMatchObject({ data: null, status: 0, statusText: '' })
+  })
+
+  it('keeps the insert result as data and reads the count from it', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(posts, {
+        status: 201,
+        headers: { 'Content-Range': '*/1' }
+      })
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      throwOnError: false,
+      fetch: fetchMock
+    })
+
+    const result = await client.insert('posts', [{ title: 'Hello' }], {
+      count: 'exact'
+    })
+
+    expect(result).toEqual({
+      data: { data: posts, count: 1, locations: [] },
+      error: null,
+      status: 201,
+      statusText: '',
+      count: 1
+    })
+  })
+
+  it('switches query builders with throwOnError()', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json({ message: 'denied' }, { status: 401 })
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const result = await client
+      .from('posts')
+      .select('id')
+      .eq('id', 1)
+      .throwOnError(false)
+
+    expect(result.error).toBeInstanceOf(PostgrestError)
+    expect(result.status).toBe(401)
+    await expect(client.from('posts').select('id')).rejects.toBeInstanceOf(
+      PostgrestError
+    )
+  })
+
+  it('uses the client setting for query builders', async () => {
+    const fetchMock = respondWith(() =>
+      Response.json(posts, { headers: { 'Content-Range': '0-0/1' } })
+    )
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      throwOnError: false,
+      fetch: fetchMock
+    })
+
+    const { data, error, count } = await client.from('posts').select()
+
+    expect(error).toBeNull()
+    expect(data).toEqual(posts)
+    expect(count).toBe(1)
+  })
+})
@@ -0,0 +1,243 @@
+import { createSupabaseClient } from '../client/index'
+import { AbortError, SupabaseError, TimeoutError } from '../types'
+import { computeBackoff, parseRetryAfter } from '../utils/fetch/index'
+import { afterEach, describe, expect, it, vi } from 'vite-plus/test'
+
+// Resolves with each response in turn; `null` never settles until aborted
+const respondInSequence = (...responses: (Response | Error | null)[]) =>
+  vi.fn((_input: RequestInfo | URL, init?: RequestInit) => {
+    const next = responses.shift()
+    if (next instanceof Error) {
+      return Promise.reject(next)
+    }
+    if (next) {
+      return Promise.resolve(next)
+    }
+    return new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () =>
+        reject(new DOMException('aborted', 'AbortError'))
+      )
+    })
+  })
+
+const json = (body: unknown, status = 200, headers?: Record<string, string>) =>
+  new Response(JSON.stringify(body), { status, headers })
+
+describe('Timeouts, cancellation and retries', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('helpers', () => {
+    it('parses Retry-After seconds and dates', () => {
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+
+      expect(parseRetryAfter('3')).toBe(3000)
+      expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT')).toBe(5000)
+      expect(parseRetryAfter('soon')).toBeUndefined()
+      expect(parseRetryAfter(null)).toBeUndefined()
+    })
+
+    it('caps jittered exponential backoff', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5)
+
+      expect(computeBackoff(0, 100, 1000)).toBe(50)
+      expect(computeBackoff(2, 100, 1000)).toBe(200)
+      expect(computeBackoff(10, 100, 1000)).toBe(500)
+    })
+  })
+
+  describe('timeouts', () => {
+    it('rejects with a TimeoutError after the client timeout', async () => {
+      const fetchMock = respondInSequence(null)
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        timeout: 20,
+        fetch: fetchMock
+      })
+
+      const error = await client.get('posts').catch((error: unknown) => error)
+
+      expect(error).toBeInstanceOf(TimeoutError)
+      expect(error).toBeInstanceOf(SupabaseError)
+      expect((error as TimeoutError).timeout).toBe(20)
+    })
+
+    it('lets a call override the client timeout', async () => {
+      const fetchMock = respondInSequence(null)
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        timeout: 60_000,
+        fetch: fetchMock
+      })
+
+      await expect(
+        client.from('posts').select().timeout(10)
+      ).rejects.toBeInstanceOf(TimeoutError)
+    })
+
+    it('times out a body that stalls after the headers', async () => {
+      // Sends the first bytes, then nothing more
+      const stalled = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('[{"id":'))
+        }
+      })
+      const fetchMock = respondInSequence(new Response(stalled))
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        timeout: 20,
+        fetch: fetchMock
+      })
+
+      await expect(client.get('posts')).rejects.toBeInstanceOf(TimeoutError)
+    })
+  })
+
+  describe('cancellation', () => {
+    it('rejects with an AbortError when the signal fires', async () => {
+      const fetchMock = respondInSequence(null)
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+      const controller = new AbortController()
+
+      const pending = client.get('posts', undefined, {
+        signal: controller.signal
+      })
+      controller.abort()
+
+      await expect(pending).rejects.toBeInstanceOf(AbortError)
+    })
+
+    it('does not send requests for an aborted signal', async () => {
+      const fetchMock = respondInSequence(json([]))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await expect(
+        client.from('posts').select().abortSignal(AbortSignal.abort())
+      ).rejects.toBeInstanceOf(AbortError)
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('cancels a pending retry', async () => {
+      const fetchMock = respondInSequence(
+        json({}, 503, { 'Retry-After': '60' })
+      )
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        retry: { retries: 3 },
+        fetch: fetchMock
+      })
+      const controller = new AbortController()
+
+      const pending = client.get('posts', undefined, {
+        signal: controller.signal
+      })
+      setTimeout(() => controller.abort(), 10)
+
+      await expect(pending).rejects.toBeInstanceOf(AbortError)
+    })
+  })
+
+  describe('retries', () => {
+    it('does not retry by default', async () => {
+      const fetchMock = respondInSequence(json({ message: 'busy' }, 503))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await expect(client.get('posts')).rejects.toMatchObject({
+        statusCode: 503
+      })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('retries idempotent requests after network errors and 5xx', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0)
+      const fetchMock = respondInSequence(
+        new TypeError('fetch failed'),
+        json({}, 502),
+        json([{ id: 1 }])
+      )
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        retry: { retries: 2 },
+        fetch: fetchMock
+      })
+
+      expect(await client.get('posts')).toEqual([{ id: 1 }])
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('waits for Retry-After on 429', async () => {
+      vi.useFakeTimers()
+      const fetchMock = respondInSequence(
+        json({}, 429, { 'Retry-After': '2' }),
+        json([])
+      )
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        retry: { retries: 1 },
+        fetch: fetchMock
+      })
+
+      const pending = client.get('posts')
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+
+      expect(await pending).toEqual([])
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('skips non-idempotent methods unless configured', async () => {
+      const fetchMock = respondInSequence(
+        json({}, 503),
+        json({}, 503),
+        json([])
+      )
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        retry: { retries: 1, baseDelay: 0 },
+        fetch: fetchMock
+      })
+
+      await expect(client.post('posts', { title: 'a' })).rejects.toMatchObject({
+        statusCode: 503
+      })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      expect(
+        await client.post(
+          'posts',
+          { title: 'a' },
+          { retry: { methods: ['POST'] } }
+        )
+      ).toEqual([])
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    })
+
+    it('lets a call disable retries', async () => {
+      const fetchMock = respondInSequence(json({}, 500))
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        retry: { retries: 3 },
+        fetch: fetchMock
+      })
+
+      await expect(
+        client.get('posts', undefined, { retry: false })
+      ).rejects.toBeInstanceOf(SupabaseError)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import { createSupabaseClient } from '../client/index'
+import { PostgrestError } from '../types'
+import type { FetchMock } from './helpers'
+import { respondWith, sent } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+const lastRequest = (fetchMock: FetchMock) => {
+  const request = sent(fetchMock, fetchMock.mock.calls.length - 1)
+  const url = new URL(request.url)
+  return {
+    path: url.pathname,
+    query: decodeURIComponent(url.search),
+    method: request.method,
+    body: request.body,
+    headers: request.headers
+  }
+}
+
+describe('rpc', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  it('posts arguments as JSON by default', async () => {
+    const fetchMock = respondWith(() => new Response('42'))
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      token: 'user',
+      fetch: fetchMock
+    })
+
+    const result = await client.rpc('add', { a: 40, b: 2 })
+
+    expect(result).toBe(42)
+    expect(lastRequest(fetchMock)).toMatchObject({
+      path: '/rest/v1/rpc/add',
+      query: '',
+      method: 'POST',
+      body: JSON.stringify({ a: 40, b: 2 })
+    })
+    expect(lastRequest(fetchMock).headers.Authorization).toBe('Bearer user')
+  })
+
+  it('sends an empty object when called without arguments', async () => {
+    const fetchMock = respondWith(() => new Response('[]'))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await client.rpc('refresh_stats')
+
+    expect(lastRequest(fetchMock).body).toBe('{}')
+  })
+
+  it('passes arguments in the query string for read-only calls', async () => {
+    const fetchMock = respondWith(() => new Response('[]'))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await client.rpc(
+      'search',
+      { term: 'hello world', tags: ['a', 'b,c'], filters: { lang: 'en' } },
+      { get: true }
+    )
+
+    expect(lastRequest(fetchMock)).toMatchObject({
+      method: 'GET',
+      body: undefined,
+      query: '?term=hello+world&tags={a,"b,c"}&filters={"lang":"en"}'
+    })
+  })
+
+  it('filters, orders and limits set-returning functions', async () => {
+    const fetchMock = respondWith(() => new Response('[{"id":1}]'))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const rows = await client
+      .rpc('nearby_stores', { lat: 35.68, long: 139.76 })
+      .select('id,name')
+      .lt('distance', 1000)
+      .order('distance')
+      .limit(5)
+
+    expect(rows).toEqual([{ id: 1 }])
+    expect(lastRequest(fetchMock)).toMatchObject({
+      method: 'POST',
+      query: '?select=id,name&distance=lt.1000&order=distance.asc&limit=5',
+      body: JSON.stringify({ lat: 35.68, long: 139.76 })
+    })
+    expect(lastRequest(fetchMock).headers.Prefer).toBeUndefined()
+  })
+
+  it('returns counts and skips the body for head calls', async () => {
+    const fetchMock = respondWith(
+      () => new Response(null, { headers: { 'Content-Range': '*/128' } })
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const result = await client.rpc(
+      'list_posts',
+      { author: 7 },
+      { head: true, count: 'exact' }
+    )
+
+    expect(result).toEqual({ data: null, count: 128 })
+    expect(lastRequest(fetchMock)).toMatchObject({
+      method: 'HEAD',
+      query: '?author=7',
+      body: undefined
+    })
+    expect(lastRequest(fetchMock).headers.Prefer).toBe('count=exact')
+  })
+
+  it('returns data with a count', async () => {
+    const fetchMock = respondWith(
+      () =>
+        new Response('[{"id":1},{"id":2}]', {
+          headers: { 'Content-Range': '0-1/2' }
+        })
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const result = await client.rpc('list_posts', {}, { count: 'planned' })
+
+    expect(result).toEqual({ data: [{ id: 1 }, { id: 2 }], count: 2 })
+  })
+
+  it('raises PostgrestError for failed calls', async () => {
+    const fetchMock = respondWith(
+      () =>
+        new Response('{"message":"function missing(x) does not exist"}', {
+          status: 404
+        })
+    )
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await expect(client.rpc('missing', { x: 1 })).rejects.toEqual(
+      new PostgrestError(
+        'Request failed: 404 function missing(x) does not exist',
+        404,
+        { message: 'function missing(x) does not exist' }
+      )
+    )
+  })
+})
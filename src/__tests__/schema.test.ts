@@ -0,0 +1,128 @@
+import { createSupabaseClient } from '../client/index'
+import { respondWith, sent } from './helpers'
+import { describe, expect, expectTypeOf, it } from 'vite-plus/test'
+
+type Database = {
+  public: {
+    Tables: {
+      posts: {
+        Row: { id: number; title: string }
+        Insert: { id?: number; title: string }
+        Update: { id?: number; title?: string }
+      }
+    }
+    Views: Record<never, never>
+    Functions: Record<never, never>
+  }
+  analytics: {
+    Tables: {
+      events: {
+        Row: { id: number; name: string }
+        Insert: { id?: number; name: string }
+        Update: { id?: number; name?: string }
+      }
+    }
+    Views: Record<never, never>
+    Functions: {
+      daily_totals: {
+        Args: { day: string }
+        Returns: { name: string; total: number }[]
+      }
+    }
+  }
+}
+
+describe('Schema selection', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'sb_publishable_test'
+
+  it('sends no profile headers without a schema', async () => {
+    const fetchMock = respondWith(() => Response.json([]))
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    await client.get('posts')
+    await client.from('posts').insert({ title: 'x' })
+
+    for (const index of [0, 1]) {
+      expect(sent(fetchMock, index).headers).not.toHaveProperty(
+        'Accept-Profile'
+      )
+      expect(sent(fetchMock, index).headers).not.toHaveProperty(
+        'Content-Profile'
+      )
+    }
+  })
+
+  it('uses Accept-Profile for reads and Content-Profile for writes', async () => {
+    const fetchMock = respondWith(() => Response.json([]))
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      db: { schema: 'api' },
+      fetch: fetchMock
+    })
+
+    await client.get('posts')
+    await client.from('posts').select().eq('id', 1)
+    await client.post('posts', { title: 'x' })
+    await client.from('posts').update({ title: 'y' }).eq('id', 1)
+    await client.rpc('search', {}, { get: true })
+    await client.rpc('search')
+
+    expect(sent(fetchMock, 0).headers['Accept-Profile']).toBe('api')
+    expect(sent(fetchMock, 1).headers['Accept-Profile']).toBe('api')
+    expect(sent(fetchMock, 2).headers['Content-Profile']).toBe('api')
+    expect(sent(fetchMock, 2).headers).not.toHaveProperty('Accept-Profile')
+    expect(sent(fetchMock, 3).headers['Content-Profile']).toBe('api')
+    expect(sent(fetchMock, 4).headers['Accept-Profile']).toBe('api')
+    expect(sent(fetchMock, 5).headers['Content-Profile']).toBe('api')
+  })
+
+  it('switches schema for a single query with schema()', async () => {
+    const fetchMock = respondWith(() => Response.json([]))
+    const client = createSupabaseClient<Database>({
+      baseUrl,
+      apiKey,
+      fetch: fetchMock
+    })
+
+    await client.schema('analytics').from('events').select()
+    await client.schema('analytics').insert('events', { name: 'signup' })
+    await client.get('posts')
+
+    expect(sent(fetchMock, 0).headers['Accept-Profile']).toBe('analytics')
+    expect(sent(fetchMock, 1).headers['Content-Profile']).toBe('analytics')
+    expect(sent(fetchMock, 2).headers).not.toHaveProperty('Accept-Profile')
+  })
+
+  it('types tables and functions from the selected schema', () => {
+    const client = createSupabaseClient<Database>({ baseUrl, apiKey })
+    const analytics = client.schema('analytics')
+
+    expectTypeOf(() =>
+      analytics.from('events').select()
+    ).returns.resolves.toEqualTypeOf<{ id: number; name: string }[]>()
+    expectTypeOf(() =>
+      analytics.rpc('daily_totals', { day: '2026-01-01' })
+    ).returns.resolves.toEqualTypeOf<{ name: string; total: number }[]>()
+
+    const configured = createSupabaseClient<Database, 'analytics'>({
+      baseUrl,
+      apiKey,
+      db: { schema: 'analytics' }
+    })
+    expectTypeOf(() => configured.get('events')).returns.resolves.toEqualTypeOf<
+      { id: number; name: string }[]
+    >()
+
+    const reject = () => {
+      // @ts-expect-error events live in the analytics schema
+      void client.from('events')
+      // @ts-expect-error posts live in the public schema
+      void analytics.get('posts')
+      // @ts-expect-error unknown schema
+      void client.schema('billing')
+    }
+    expect(reject).toBeTypeOf('function')
+  })
+})
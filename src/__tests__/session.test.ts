@@ -0,0 +1,289 @@
+import { createSupabaseClient } from '../client/index'
+import { AuthApiError, SupabaseError } from '../types'
+import type { AuthChangeEvent } from '../types'
+import { createMemoryStorage } from '../utils/storage'
+import { getRequestUrl } from './helpers'
+import { afterEach, describe, expect, it, vi } from 'vite-plus/test'
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+
+const tokenPair = (suffix: string, expiresIn = 3600) => ({
+  access_token: `access_${suffix}`,
+  token_type: 'bearer',
+  expires_in: expiresIn,
+  refresh_token: `refresh_${suffix}`,
+  user: { id: 'user-1' }
+})
+
+/**
+ * Issues `tokens` (in order) from the signup, token and verify endpoints and
+ * answers REST calls with 401 until the latest access token is presented.
+ */
+const mockAuthServer = (tokens: ReturnType<typeof tokenPair>[]) => {
+  const calls: { url: URL; authorization?: string; body?: unknown }[] = []
+  let issued = 0
+  let currentToken: string | undefined
+
+  const fetchMock = vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(getRequestUrl(input))
+    const headers = init?.headers as Record<string, string> | undefined
+    calls.push({
+      url,
+      authorization: headers?.Authorization,
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined
+    })
+
+    const issuers = ['/auth/v1/signup', '/auth/v1/token', '/auth/v1/verify']
+    if (issuers.includes(url.pathname)) {
+      const next = tokens[issued++]
+      currentToken = next.access_token
+      return Promise.resolve(json(next))
+    }
+
+    if (url.pathname === '/auth/v1/logout') {
+      return Promise.resolve(new Response(null, { status: 204 }))
+    }
+
+    if (headers?.Authorization !== `Bearer ${currentToken}`) {
+      return Promise.resolve(json({ message: 'JWT expired' }, 401))
+    }
+    return Promise.resolve(json([{ id: 1 }]))
+  })
+
+  return { calls, issuedTokens: () => issued, fetch: fetchMock }
+}
+
+describe('Session management', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('is off by default', async () => {
+    const server = mockAuthServer([tokenPair('1')])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: server.fetch
+    })
+
+    await client.signIn('user@example.com', 'password')
+
+    expect(client.getToken()).toBeUndefined()
+    expect(client.getSession()).toBeNull()
+  })
+
+  it('stores the session from signIn and uses its access token', async () => {
+    const server = mockAuthServer([tokenPair('1')])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      autoRefreshToken: true,
+      fetch: server.fetch
+    })
+
+    await client.signIn('user@example.com', 'password')
+    await client.get('posts')
+
+    const session = client.getSession()
+    expect(session?.access_token).toBe('access_1')
+    expect(session?.user?.id).toBe('user-1')
+    expect(session?.expires_at).toBeGreaterThan(Date.now() / 1000)
+    expect(client.getToken()).toBe('access_1')
+    expect(server.calls[1].authorization).toBe('Bearer access_1')
+  })
+
+  it('refreshes the session shortly before it expires', async () => {
+    vi.useFakeTimers()
+    const server = mockAuthServer([tokenPair('1'), tokenPair('2')])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      autoRefreshToken: true,
+      refreshMarginSeconds: 30,
+      fetch: server.fetch
+    })
+
+    await client.signIn('user@example.com', 'password')
+    await vi.advanceTimersByTimeAsync((3600 - 31) * 1000)
+    expect(server.issuedTokens()).toBe(1)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(server.issuedTokens()).toBe(2)
+    expect(server.calls[1].url.searchParams.get('grant_type')).toBe(
+      'refresh_token'
+    )
+    expect(server.calls[1].body).toEqual({ refresh_token: 'refresh_1' })
+    expect(client.getToken()).toBe('access_2')
+    expect(client.getSession()?.user?.id).toBe('user-1')
+  })
+
+  it('refreshes an expiring session before sending a request', async () => {
+    const server = mockAuthServer([tokenPair('1', 10), tokenPair('2')])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      autoRefreshToken: true,
+      fetch: server.fetch
+    })
+
+    await client.signInAnonymously()
+    await client.get('posts')
+
+    expect(server.issuedTokens()).toBe(2)
+    expect(server.calls.map((call) => call.url.pathname)).toEqual([
+      '/auth/v1/signup',
+      '/auth/v1/token',
+      '/rest/v1/posts'
+    ])
+    expect(server.calls[2].authorization).toBe('Bearer access_2')
+  })
+
+  it('refreshes and retries once after a 401', async () => {
+    const server = mockAuthServer([tokenPair('1'), tokenPair('2')])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      autoRefreshToken: true,
+      fetch: server.fetch
+    })
+    client.setSession({ ...tokenPair('stale'), expires_in: 3600 })
+
+    const rows = await client.get('posts')
+
+    expect(rows).toEqual([{ id: 1 }])
+    expect(server.calls.map((call) => call.authorization)).toEqual([
+      'Bearer access_stale',
+      `Bearer ${apiKey}`,
+      'Bearer access_1'
+    ])
+  })
+
+  it('shares one refresh between concurrent callers', async () => {
+    const server = mockAuthServer([tokenPair('1'), tokenPair('2')])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      autoRefreshToken: true,
+      fetch: server.fetch
+    })
+    client.setSession(tokenPair('0'))
+
+    const [first, second] = await Promise.all([
+      client.refreshSession(),
+      client.refreshSession()
+    ])
+
+    expect(first).toBe(second)
+    expect(server.issuedTokens()).toBe(1)
+  })
+
+  it('stores sessions from PKCE exchange and OTP verification', async () => {
+    const server = mockAuthServer([tokenPair('pkce'), tokenPair('otp')])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      autoRefreshToken: true,
+      fetch: server.fetch
+    })
+
+    await client.exchangeCodeForSession('code', 'verifier')
+    expect(client.getToken()).toBe('access_pkce')
+
+    await client.verifyOTP('user@example.com', '123456', 'email')
+    expect(client.getToken()).toBe('access_otp')
+  })
+
+  it('clears the session on signOut', async () => {
+    vi.useFakeTimers()
+    const server = mockAuthServer([tokenPair('1'), tokenPair('2')])
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      autoRefreshToken: true,
+      fetch: server.fetch
+    })
+
+    await client.signIn('user@example.com', 'password')
+    await client.signOut()
+
+    expect(client.getSession()).toBeNull()
+    expect(client.getToken()).toBeUndefined()
+    await vi.advanceTimersByTimeAsync(3600 * 1000)
+    expect(server.issuedTokens()).toBe(1)
+  })
+
+  describe('when a refresh fails', () => {
+    // Fails every refresh with `status`; REST calls succeed as anon
+    const refreshFailing = (status: number) =>
+      vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+        const url = new URL(getRequestUrl(input))
+        const headers = init?.headers as Record<string, string> | undefined
+        if (url.pathname === '/auth/v1/token') {
+          return Promise.resolve(
+            json(
+              { error: 'invalid_grant', error_description: 'Invalid token' },
+              status
+            )
+          )
+        }
+        return Promise.resolve(
+          headers?.Authorization === `Bearer ${apiKey}`
+            ? json([{ id: 1 }])
+            : json({ message: 'JWT expired' }, 401)
+        )
+      })
+
+    it('signs out when the refresh token is rejected', async () => {
+      const fetchMock = refreshFailing(400)
+      const storage = createMemoryStorage()
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        storage,
+        fetch: fetchMock
+      })
+      const events: AuthChangeEvent[] = []
+      client.onAuthStateChange((event) => events.push(event))
+      await client.initialize()
+      client.setSession(tokenPair('dead', 10))
+
+      await expect(client.get('posts')).rejects.toBeInstanceOf(AuthApiError)
+
+      expect(client.getSession()).toBeNull()
+      expect(client.getToken()).toBeUndefined()
+      expect(await storage.get('sb-example-auth-token')).toBeNull()
+      expect(events.at(-1)).toBe('SIGNED_OUT')
+      // Later requests go out as anon without retrying the refresh
+      expect(await client.get('posts')).toEqual([{ id: 1 }])
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('keeps the session after a server error', async () => {
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        autoRefreshToken: true,
+        fetch: refreshFailing(503)
+      })
+      client.setSession(tokenPair('kept', 10))
+
+      await expect(client.get('posts')).rejects.toBeInstanceOf(SupabaseError)
+
+      expect(client.getSession()?.access_token).toBe('access_kept')
+    })
+  })
+
+  it('rejects refreshSession without a session', async () => {
+    const client = createSupabaseClient({ baseUrl, apiKey })
+
+    await expect(client.refreshSession()).rejects.toBeInstanceOf(SupabaseError)
+  })
+})
@@ -0,0 +1,161 @@
+import { createSupabaseClient } from '../client/index'
+import type { AuthSession } from '../types'
+import {
+  createFileStorage,
+  createLocalStorage,
+  createMemoryStorage,
+  defaultStorageKey,
+  deserializeSession,
+  serializeSession
+} from '../utils/storage/index'
+import { getRequestUrl, respondWithJson, sent } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+// Node built-ins are loaded by name so the suite needs no Node type package
+interface NodeFs {
+  readFile(path: string, encoding: 'utf8'): Promise<string>
+  rm(path: string, options: { force: boolean }): Promise<void>
+}
+const fsModule: string = 'node:fs/promises'
+const osModule: string = 'node:os'
+
+const session: AuthSession = {
+  access_token: 'access_stored',
+  token_type: 'bearer',
+  expires_in: 3600,
+  expires_at: Math.floor(Date.now() / 1000) + 3600,
+  refresh_token: 'refresh_stored',
+  user: { id: 'user-1' }
+}
+
+describe('Session storage adapters', () => {
+  const baseUrl = 'https://abcdefgh.supabase.co'
+  const apiKey = 'test_api_key'
+
+  describe('serialization', () => {
+    it('round-trips a versioned session', () => {
+      const value = serializeSession(session)
+
+      expect(JSON.parse(value)).toEqual({ version: 1, session })
+      expect(deserializeSession(value)).toEqual(session)
+    })
+
+    it('ignores missing, corrupt and outdated entries', () => {
+      expect(deserializeSession(null)).toBeNull()
+      expect(deserializeSession('{not json')).toBeNull()
+      expect(
+        deserializeSession(JSON.stringify({ version: 0, session }))
+      ).toBeNull()
+      expect(
+        deserializeSession(JSON.stringify({ version: 1, session: {} }))
+      ).toBeNull()
+    })
+
+    it('derives the default key from the project ref', () => {
+      expect(defaultStorageKey(baseUrl)).toBe('sb-abcdefgh-auth-token')
+    })
+  })
+
+  describe('adapters', () => {
+    it('stores values in memory', async () => {
+      const storage = createMemoryStorage()
+
+      await storage.set('key', 'value')
+      expect(await storage.get('key')).toBe('value')
+      await storage.remove('key')
+      expect(await storage.get('key')).toBeNull()
+    })
+
+    it('wraps a localStorage-compatible object', async () => {
+      const items = new Map<string, string>()
+      const storage = createLocalStorage({
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => items.set(key, value),
+        removeItem: (key) => items.delete(key)
+      })
+
+      await storage.set('key', 'value')
+      expect(items.get('key')).toBe('value')
+      expect(await storage.get('key')).toBe('value')
+      await storage.remove('key')
+      expect(items.has('key')).toBe(false)
+    })
+
+    it('persists values to a JSON file across instances', async () => {
+      const fs = (await import(fsModule)) as NodeFs
+      const os = (await import(osModule)) as { tmpdir(): string }
+      const path = `${os.tmpdir()}/supabase-ts-rest-${Date.now()}.json`
+
+      try {
+        const first = createFileStorage(path)
+        expect(await first.get('a')).toBeNull()
+        await Promise.all([first.set('a', '1'), first.set('b', '2')])
+        await first.remove('b')
+
+        const second = createFileStorage(path)
+        expect(await second.get('a')).toBe('1')
+        expect(await second.get('b')).toBeNull()
+        expect(JSON.parse(await fs.readFile(path, 'utf8'))).toEqual({ a: '1' })
+      } finally {
+        await fs.rm(path, { force: true })
+      }
+    })
+  })
+
+  describe('client integration', () => {
+    it('restores a stored session on creation', async () => {
+      const storage = createMemoryStorage()
+      await storage.set('custom-key', serializeSession(session))
+      const fetchMock = respondWithJson([])
+
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        storage,
+        storageKey: 'custom-key',
+        fetch: fetchMock
+      })
+      await client.get('posts')
+
+      expect(client.getSession()?.access_token).toBe('access_stored')
+      expect(sent(fetchMock).headers.Authorization).toBe('Bearer access_stored')
+    })
+
+    it('writes sessions on sign-in and removes them on sign-out', async () => {
+      const storage = createMemoryStorage()
+      // storage turns session mode on by itself
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        storage,
+        fetch: (input) =>
+          Promise.resolve(
+            getRequestUrl(input).includes('/logout')
+              ? new Response(null, { status: 204 })
+              : Response.json(session)
+          )
+      })
+      expect(await client.initialize()).toBeNull()
+
+      await client.signIn('user@example.com', 'password')
+      const key = defaultStorageKey(baseUrl)
+      expect(deserializeSession(await storage.get(key))?.access_token).toBe(
+        'access_stored'
+      )
+
+      await client.signOut()
+      expect(await storage.get(key)).toBeNull()
+    })
+
+    it('drops outdated entries instead of restoring them', async () => {
+      const storage = createMemoryStorage()
+      const key = defaultStorageKey(baseUrl)
+      await storage.set(key, JSON.stringify({ version: 0, session }))
+
+      const client = createSupabaseClient({ baseUrl, apiKey, storage })
+
+      expect(await client.initialize()).toBeNull()
+      expect(await storage.get(key)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,322 @@
+import { createSupabaseClient } from '../client/index'
+import { SupabaseError } from '../types'
+import { respondWith, sent } from './helpers'
+import { describe, expect, it } from 'vite-plus/test'
+
+describe('Storage', () => {
+  const baseUrl = 'https://example.supabase.co'
+  const apiKey = 'test_api_key'
+  const storageUrl = `${baseUrl}/storage/v1`
+
+  describe('buckets', () => {
+    it('lists and reads buckets with the user token', async () => {
+      const fetchMock = respondWith(() => new Response('[{"id":"avatars"}]'))
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        token: 'user',
+        fetch: fetchMock
+      })
+
+      expect(await client.storage.listBuckets()).toEqual([{ id: 'avatars' }])
+      await client.storage.getBucket('avatars')
+
+      expect(sent(fetchMock).url).toBe(`${storageUrl}/bucket`)
+      expect(sent(fetchMock).headers.Authorization).toBe('Bearer user')
+      expect(sent(fetchMock, 1)).toMatchObject({
+        url: `${storageUrl}/bucket/avatars`,
+        method: 'GET'
+      })
+    })
+
+    it('creates, updates, empties and deletes buckets', async () => {
+      const fetchMock = respondWith(() => new Response('{"message":"ok"}'))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await client.storage.createBucket('avatars', {
+        public: true,
+        fileSizeLimit: '5MB',
+        allowedMimeTypes: ['image/*']
+      })
+      await client.storage.updateBucket('avatars', { public: false })
+      await client.storage.emptyBucket('avatars')
+      await client.storage.deleteBucket('avatars')
+
+      expect(sent(fetchMock).json()).toEqual({
+        id: 'avatars',
+        name: 'avatars',
+        public: true,
+        file_size_limit: '5MB',
+        allowed_mime_types: ['image/*']
+      })
+      expect(
+        fetchMock.mock.calls.map((_, index) => {
+          const { method, url } = sent(fetchMock, index)
+          return `${method} ${url.replace(storageUrl, '')}`
+        })
+      ).toEqual([
+        'POST /bucket',
+        'PUT /bucket/avatars',
+        'POST /bucket/avatars/empty',
+        'DELETE /bucket/avatars'
+      ])
+    })
+  })
+
+  describe('objects', () => {
+    it('uploads raw bodies with content type, cache control and upsert', async () => {
+      const fetchMock = respondWith(
+        () => new Response('{"Id":"obj-1","Key":"avatars/a b/me.png"}')
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+      const file = new Blob(['png'], { type: 'image/png' })
+
+      const result = await client.storage
+        .from('avatars')
+        .upload('a b/me.png', file, { upsert: true, cacheControl: 60 })
+
+      expect(result).toEqual({
+        id: 'obj-1',
+        path: 'a b/me.png',
+        fullPath: 'avatars/a b/me.png'
+      })
+      const request = sent(fetchMock)
+      expect(request.url).toBe(`${storageUrl}/object/avatars/a%20b/me.png`)
+      expect(request.method).toBe('POST')
+      expect(request.body).toBe(file)
+      expect(request.headers).toMatchObject({
+        'Content-Type': 'image/png',
+        'cache-control': 'max-age=60',
+        'x-upsert': 'true'
+      })
+    })
+
+    it('updates with PUT and defaults to octet-stream', async () => {
+      const fetchMock = respondWith(
+        () => new Response('{"Key":"docs/report.bin"}')
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await client.storage
+        .from('docs')
+        .update('report.bin', new Uint8Array([1, 2, 3]).buffer)
+
+      expect(sent(fetchMock)).toMatchObject({
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'cache-control': 'max-age=3600',
+          'x-upsert': 'false'
+        }
+      })
+    })
+
+    it('streams uploads without retrying them', async () => {
+      const fetchMock = respondWith(
+        () => new Response('{"Key":"docs/big.csv"}')
+      )
+      const client = createSupabaseClient({
+        baseUrl,
+        apiKey,
+        retry: { retries: 3, methods: ['PUT'] },
+        fetch: fetchMock
+      })
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('a,b\n'))
+          controller.close()
+        }
+      })
+
+      await client.storage
+        .from('docs')
+        .update('big.csv', stream, { contentType: 'text/csv' })
+
+      const [, init] = fetchMock.mock.calls[0]
+      expect(init?.body).toBe(stream)
+      expect((init as RequestInit & { duplex?: string }).duplex).toBe('half')
+    })
+
+    it('downloads objects as blobs', async () => {
+      const fetchMock = respondWith(() => new Response('file contents'))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const blob = await client.storage.from('docs').download('notes.txt')
+
+      expect(await blob.text()).toBe('file contents')
+      expect(sent(fetchMock).url).toBe(`${storageUrl}/object/docs/notes.txt`)
+    })
+
+    it('lists with prefix, search and sort', async () => {
+      const fetchMock = respondWith(() => new Response('[]'))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await client.storage.from('docs').list('2024/', {
+        limit: 10,
+        search: 'report',
+        sortBy: { column: 'created_at', order: 'desc' }
+      })
+
+      expect(sent(fetchMock).url).toBe(`${storageUrl}/object/list/docs`)
+      expect(sent(fetchMock).json()).toEqual({
+        prefix: '2024/',
+        limit: 10,
+        offset: 0,
+        search: 'report',
+        sortBy: { column: 'created_at', order: 'desc' }
+      })
+    })
+
+    it('moves, copies and removes objects', async () => {
+      const fetchMock = respondWith(
+        () => new Response('{"Key":"archive/a.txt","message":"ok"}')
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+      const docs = client.storage.from('docs')
+
+      await docs.move('a.txt', 'b.txt')
+      const copied = await docs.copy('b.txt', 'a.txt', {
+        destinationBucket: 'archive'
+      })
+      await docs.remove(['a.txt', 'b.txt'])
+
+      expect(sent(fetchMock).json()).toEqual({
+        bucketId: 'docs',
+        sourceKey: 'a.txt',
+        destinationKey: 'b.txt'
+      })
+      expect(copied).toEqual({ path: 'archive/a.txt' })
+      expect(sent(fetchMock, 1).url).toBe(`${storageUrl}/object/copy`)
+      expect(sent(fetchMock, 2)).toMatchObject({
+        url: `${storageUrl}/object/docs`,
+        method: 'DELETE'
+      })
+      expect(sent(fetchMock, 2).json()).toEqual({
+        prefixes: ['a.txt', 'b.txt']
+      })
+    })
+
+    it('raises SupabaseError for storage errors', async () => {
+      const fetchMock = respondWith(
+        () =>
+          new Response(
+            '{"statusCode":"404","error":"not_found","message":"Object not found"}',
+            { status: 400 }
+          )
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      await expect(
+        client.storage.from('docs').download('missing.txt')
+      ).rejects.toEqual(
+        new SupabaseError('Request failed: 400 Object not found', 400, {
+          statusCode: '404',
+          error: 'not_found',
+          message: 'Object not found'
+        })
+      )
+    })
+  })
+
+  describe('URLs', () => {
+    it('creates signed URLs', async () => {
+      const fetchMock = respondWith(
+        () => new Response('{"signedURL":"/object/sign/docs/a.txt?token=abc"}')
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const { signedUrl } = await client.storage
+        .from('docs')
+        .createSignedUrl('a.txt', 60, { download: 'report.txt' })
+
+      expect(signedUrl).toBe(
+        `${storageUrl}/object/sign/docs/a.txt?token=abc&download=report.txt`
+      )
+      expect(sent(fetchMock).url).toBe(`${storageUrl}/object/sign/docs/a.txt`)
+      expect(sent(fetchMock).json()).toEqual({ expiresIn: 60 })
+    })
+
+    it('signs several paths and reports per-path errors', async () => {
+      const fetchMock = respondWith(
+        () =>
+          new Response(
+            JSON.stringify([
+              {
+                path: 'a.txt',
+                signedURL: '/object/sign/docs/a.txt?token=a',
+                error: null
+              },
+              {
+                path: 'gone.txt',
+                signedURL: null,
+                error:
+                  'Either the object does not exist or you do not have access to it'
+              }
+            ])
+          )
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+      const urls = await client.storage
+        .from('docs')
+        .createSignedUrls(['a.txt', 'gone.txt'], 60)
+
+      expect(urls[0]).toEqual({
+        path: 'a.txt',
+        signedUrl: `${storageUrl}/object/sign/docs/a.txt?token=a`,
+        error: null
+      })
+      expect(urls[1].signedUrl).toBeNull()
+      expect(sent(fetchMock).json()).toEqual({
+        expiresIn: 60,
+        paths: ['a.txt', 'gone.txt']
+      })
+    })
+
+    it('creates signed upload URLs and uploads with their token', async () => {
+      const fetchMock = respondWith(
+        () =>
+          new Response(
+            '{"url":"/object/upload/sign/docs/a.txt?token=up-token","Key":"docs/a.txt"}'
+          )
+      )
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+      const docs = client.storage.from('docs')
+
+      const signed = await docs.createSignedUploadUrl('a.txt', { upsert: true })
+      const uploaded = await docs.uploadToSignedUrl(
+        signed.path,
+        signed.token,
+        'hello',
+        { contentType: 'text/plain' }
+      )
+
+      expect(signed).toEqual({
+        signedUrl: `${storageUrl}/object/upload/sign/docs/a.txt?token=up-token`,
+        token: 'up-token',
+        path: 'a.txt'
+      })
+      expect(sent(fetchMock).headers['x-upsert']).toBe('true')
+      expect(uploaded).toEqual({ path: 'a.txt', fullPath: 'docs/a.txt' })
+      expect(sent(fetchMock, 1)).toMatchObject({
+        method: 'PUT',
+        url: `${storageUrl}/object/upload/sign/docs/a.txt?token=up-token`,
+        body: 'hello'
+      })
+    })
+
+    it('builds public URLs without a request', () => {
+      const fetchMock = respondWith(() => new Response(null))
+      const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+      const avatars = client.storage.from('avatars')
+
+      expect(avatars.getPublicUrl('users/me.png').publicUrl).toBe(
+        `${storageUrl}/object/public/avatars/users/me.png`
+      )
+      expect(avatars.getPublicUrl('me.png', { download: true }).publicUrl).toBe(
+        `${storageUrl}/object/public/avatars/me.png?download=`
+      )
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+  })
+})
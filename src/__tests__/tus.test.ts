@@ -0,0 +1,405 @@
+import { createSupabaseClient } from '../client/index'
+import { AbortError, SupabaseError } from '../types'
+import { ERROR_MESSAGES } from '../utils/constants'
+import { createMemoryStorage } from '../utils/storage'
+import { getRequestUrl } from './helpers'
+import { afterEach, describe, expect, it, vi } from 'vite-plus/test'
+
+const baseUrl = 'https://example.supabase.co'
+const endpoint = `${baseUrl}/storage/v1/upload/resumable`
+
+// In-memory TUS server: creation, HEAD offsets, PATCH chunks, termination
+const createTusServer = () => {
+  const uploads = new Map<
+    string,
+    { length: number; metadata: string; content: string }
+  >()
+  let created = 0
+
+  const fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = getRequestUrl(input)
+    const headers = (init?.headers ?? {}) as Record<string, string>
+    if (headers['Tus-Resumable'] !== '1.0.0') {
+      return new Response(null, { status: 412 })
+    }
+
+    if (init?.method === 'POST' && url === endpoint) {
+      const id = `upload-${++created}`
+      uploads.set(id, {
+        length: Number(headers['Upload-Length']),
+        metadata: headers['Upload-Metadata'],
+        content: ''
+      })
+      return new Response(null, {
+        status: 201,
+        headers: { Location: `${endpoint}/${id}` }
+      })
+    }
+
+    const id = url.slice(endpoint.length + 1)
+    const upload = uploads.get(id)
+    if (!upload) {
+      return new Response(null, { status: 404 })
+    }
+
+    switch (init?.method) {
+      case 'HEAD':
+        return new Response(null, {
+          status: 200,
+          headers: {
+            'Upload-Offset': String(upload.content.length),
+            'Upload-Length': String(upload.length)
+          }
+        })
+      case 'PATCH': {
+        if (Number(headers['Upload-Offset']) !== upload.content.length) {
+          return new Response(null, { status: 409 })
+        }
+        upload.content += await (init.body as Blob).text()
+        return new Response(null, {
+          status: 204,
+          headers: { 'Upload-Offset': String(upload.content.length) }
+        })
+      }
+      case 'DELETE':
+        uploads.delete(id)
+        return new Response(null, { status: 204 })
+      default:
+        return new Response(null, { status: 405 })
+    }
+  })
+
+  const calls = () =>
+    fetch.mock.calls.map(([input, init]) => {
+      const headers = init?.headers as Record<string, string> | undefined
+      const path = getRequestUrl(input).replace(endpoint, '') || '/'
+      return `${init?.method} ${path} ${headers?.['Upload-Offset'] ?? ''}`.trim()
+    })
+
+  return { fetch, uploads, calls }
+}
+
+const decodeMetadata = (header: string) =>
+  Object.fromEntries(
+    header.split(',').map((pair) => {
+      const [key, value] = pair.split(' ')
+      return [key, atob(value)]
+    })
+  )
+
+describe('Resumable uploads', () => {
+  const apiKey = 'test_api_key'
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('creates the upload and sends it in chunks', async () => {
+    const server = createTusServer()
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: server.fetch
+    })
+    const progress: number[] = []
+
+    const upload = client.storage
+      .from('exports')
+      .createResumableUpload(
+        '2024/dump.csv',
+        new Blob(['0123456789'], { type: 'text/csv' }),
+        {
+          chunkSize: 4,
+          upsert: true,
+          onProgress: (sent, total) => progress.push(sent / total)
+        }
+      )
+
+    expect(await upload.start()).toBe('completed')
+    expect(server.calls()).toEqual([
+      'POST /',
+      'PATCH /upload-1 0',
+      'PATCH /upload-1 4',
+      'PATCH /upload-1 8'
+    ])
+    expect(progress).toEqual([0, 0.4, 0.8, 1])
+
+    const stored = server.uploads.get('upload-1')
+    expect(stored?.content).toBe('0123456789')
+    expect(decodeMetadata(stored?.metadata ?? '')).toEqual({
+      bucketName: 'exports',
+      objectName: '2024/dump.csv',
+      contentType: 'text/csv',
+      cacheControl: '3600'
+    })
+    const [, init] = server.fetch.mock.calls[0]
+    expect(init?.headers).toMatchObject({
+      Authorization: `Bearer ${apiKey}`,
+      'Upload-Length': '10',
+      'x-upsert': 'true'
+    })
+    expect(server.fetch.mock.calls[1][1]?.headers).toMatchObject({
+      'Content-Type': 'application/offset+octet-stream'
+    })
+  })
+
+  it('pauses and resumes from the offset reported by the server', async () => {
+    const server = createTusServer()
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: server.fetch
+    })
+    let resumed = false
+
+    const upload = client.storage
+      .from('exports')
+      .createResumableUpload('a.bin', new TextEncoder().encode('abcdefgh'), {
+        chunkSize: 3,
+        onProgress: (sent) => {
+          if (sent === 3 && !resumed) {
+            upload.pause()
+          }
+        }
+      })
+
+    expect(await upload.start()).toBe('paused')
+    expect(upload.offset).toBe(3)
+    resumed = true
+    expect(await upload.resume()).toBe('completed')
+
+    expect(server.calls()).toEqual([
+      'POST /',
+      'PATCH /upload-1 0',
+      'HEAD /upload-1',
+      'PATCH /upload-1 3',
+      'PATCH /upload-1 6'
+    ])
+    expect(server.uploads.get('upload-1')?.content).toBe('abcdefgh')
+  })
+
+  it('resumes right after a pause while a chunk is in flight', async () => {
+    const server = createTusServer()
+    let stalled = false
+    let patching: () => void = () => undefined
+    const inFlight = new Promise<void>((resolve) => {
+      patching = resolve
+    })
+    // The first attempt at the second chunk hangs until it is aborted
+    const fetchMock = vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+      const headers = init?.headers as Record<string, string>
+      if (headers['Upload-Offset'] === '3' && !stalled) {
+        stalled = true
+        patching()
+        return new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () =>
+            reject(new DOMException('aborted', 'AbortError'))
+          )
+        })
+      }
+      return server.fetch(input, init)
+    })
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+
+    const upload = client.storage
+      .from('exports')
+      .createResumableUpload('a.bin', new Blob(['abcdefgh']), {
+        chunkSize: 3
+      })
+
+    const first = upload.start()
+    await inFlight
+    upload.pause()
+    const second = upload.resume()
+
+    expect(await first).toBe('paused')
+    expect(await second).toBe('completed')
+    expect(server.calls()).toEqual([
+      'POST /',
+      'PATCH /upload-1 0',
+      'HEAD /upload-1',
+      'PATCH /upload-1 3',
+      'PATCH /upload-1 6'
+    ])
+    expect(server.uploads.get('upload-1')?.content).toBe('abcdefgh')
+  })
+
+  it('resumes a stored upload after a restart', async () => {
+    const server = createTusServer()
+    const urlStorage = createMemoryStorage()
+    const file = new Blob(['abcdefgh'])
+
+    const first = createSupabaseClient({ baseUrl, apiKey, fetch: server.fetch })
+      .storage.from('exports')
+      .createResumableUpload('a.bin', file, {
+        chunkSize: 4,
+        urlStorage,
+        onProgress: (sent) => {
+          if (sent === 4) {
+            first.pause()
+          }
+        }
+      })
+    expect(await first.start()).toBe('paused')
+    expect(await urlStorage.get(first.fingerprint)).toBe(`${endpoint}/upload-1`)
+
+    server.fetch.mockClear()
+    const second = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: server.fetch
+    })
+      .storage.from('exports')
+      .createResumableUpload('a.bin', file, { chunkSize: 4, urlStorage })
+
+    expect(await second.start()).toBe('completed')
+    expect(server.calls()).toEqual(['HEAD /upload-1', 'PATCH /upload-1 4'])
+    expect(server.uploads.get('upload-1')?.content).toBe('abcdefgh')
+    expect(await urlStorage.get(second.fingerprint)).toBeNull()
+  })
+
+  it('starts over when the stored upload has expired', async () => {
+    const server = createTusServer()
+    const urlStorage = createMemoryStorage()
+    await urlStorage.set('report', `${endpoint}/expired`)
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: server.fetch
+    })
+
+    const upload = client.storage
+      .from('exports')
+      .createResumableUpload('a.bin', new Blob(['abc']), {
+        urlStorage,
+        fingerprint: 'report'
+      })
+
+    expect(await upload.start()).toBe('completed')
+    expect(server.calls()).toEqual([
+      'HEAD /expired',
+      'POST /',
+      'PATCH /upload-1 0'
+    ])
+    expect(upload.url).toBe(`${endpoint}/upload-1`)
+  })
+
+  it('rejects a chunkSize that is not a positive integer', () => {
+    const client = createSupabaseClient({ baseUrl, apiKey })
+
+    for (const chunkSize of [0, -1, 1.5]) {
+      expect(() =>
+        client.storage
+          .from('exports')
+          .createResumableUpload('a.bin', new Blob(['abc']), { chunkSize })
+      ).toThrow(new SupabaseError(ERROR_MESSAGES.INVALID_CHUNK_SIZE))
+    }
+  })
+
+  it('fails when the server offset is missing or does not advance', async () => {
+    const server = createTusServer()
+    const urlStorage = createMemoryStorage()
+    await urlStorage.set('stuck', `${endpoint}/upload-1`)
+    // HEAD without an offset, then PATCH answers that repeat the offset
+    const fetchMock = vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === 'HEAD') {
+        return Promise.resolve(new Response(null, { status: 200 }))
+      }
+      if (init?.method === 'PATCH') {
+        return Promise.resolve(
+          new Response(null, {
+            status: 204,
+            headers: { 'Upload-Offset': '0' }
+          })
+        )
+      }
+      return server.fetch(input, init)
+    })
+    const client = createSupabaseClient({ baseUrl, apiKey, fetch: fetchMock })
+    const bucket = client.storage.from('exports')
+
+    await expect(
+      bucket
+        .createResumableUpload('a.bin', new Blob(['abcdefgh']), {
+          urlStorage,
+          fingerprint: 'stuck'
+        })
+        .start()
+    ).rejects.toBeInstanceOf(SupabaseError)
+    await expect(
+      bucket
+        .createResumableUpload('b.bin', new Blob(['abcdefgh']), {
+          chunkSize: 4
+        })
+        .start()
+    ).rejects.toBeInstanceOf(SupabaseError)
+    expect(
+      fetchMock.mock.calls.filter(([, init]) => init?.method === 'PATCH')
+    ).toHaveLength(1)
+  })
+
+  it('fingerprints files by name, modification time and type', () => {
+    const bucket = createSupabaseClient({ baseUrl, apiKey }).storage.from(
+      'exports'
+    )
+    const fingerprint = (body: Blob) =>
+      bucket.createResumableUpload('a.csv', body).fingerprint
+
+    const report = new File(['abc'], 'report.csv', {
+      type: 'text/csv',
+      lastModified: 1
+    })
+
+    expect(fingerprint(report)).toBe(
+      'tus::exports/a.csv::3::text/csv::report.csv::1'
+    )
+    expect(
+      fingerprint(
+        new File(['xyz'], 'other.csv', { type: 'text/csv', lastModified: 1 })
+      )
+    ).not.toBe(fingerprint(report))
+    expect(
+      fingerprint(
+        new File(['abc'], 'report.csv', { type: 'text/csv', lastModified: 2 })
+      )
+    ).not.toBe(fingerprint(report))
+    expect(fingerprint(new Blob(['abc'], { type: 'text/plain' }))).toBe(
+      'tus::exports/a.csv::3::text/plain'
+    )
+  })
+
+  it('aborts a running upload and terminates it on the server', async () => {
+    const server = createTusServer()
+    const urlStorage = createMemoryStorage()
+    const client = createSupabaseClient({
+      baseUrl,
+      apiKey,
+      fetch: server.fetch
+    })
+    let aborting: Promise<void> | undefined
+
+    const upload = client.storage
+      .from('exports')
+      .createResumableUpload('a.bin', new Blob(['abcdefgh']), {
+        chunkSize: 4,
+        urlStorage,
+        onProgress: (sent) => {
+          if (sent === 4) {
+            aborting = upload.abort()
+          }
+        }
+      })
+
+    await expect(upload.start()).rejects.toBeInstanceOf(AbortError)
+    await aborting
+
+    expect(server.calls()).toEqual([
+      'POST /',
+      'PATCH /upload-1 0',
+      'DELETE /upload-1'
+    ])
+    expect(server.uploads.size).toBe(0)
+    expect(await urlStorage.get(upload.fingerprint)).toBeNull()
+    await expect(upload.start()).rejects.toBeInstanceOf(AbortError)
+  })
+})
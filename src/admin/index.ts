@@ -0,0 +1,267 @@
+import type {
+  AdminUserAttributes,
+  AuthError,
+  AuthFactor,
+  AuthUser,
+  CallResult,
+  DoFetchFn,
+  GeneratedLink,
+  GenerateLinkParams,
+  HttpMethod,
+  ListUsersOptions,
+  RespondFn,
+  ThrowOnErrorOption,
+  TrackedRequestOptions,
+  UserList
+} from '../types/index.js'
+import { SupabaseError } from '../types/index.js'
+import {
+  ADMIN_API_PATH,
+  ERROR_MESSAGES,
+  INVITE_API_PATH
+} from '../utils/constants/index.js'
+import { detectKeyType } from '../utils/keys/index.js'
+import { readJson } from '../utils/fetch/index.js'
+
+// Reads `page` from the `rel` entries of a `Link` header
+function linkPages(header: string | null): Record<string, number> {
+  const pages: Record<string, number> = {}
+  for (const part of (header ?? '').split(',')) {
+    const match = /<([^>]+)>;\s*rel="(\w+)"/.exec(part)
+    if (match) {
+      const page = new URL(match[1], 'http://localhost').searchParams.get(
+        'page'
+      )
+      if (page) {
+        pages[match[2]] = Number(page)
+      }
+    }
+  }
+  return pages
+}
+
+function withRedirect(path: string, redirectTo?: string): string {
+  return redirectTo
+    ? `${path}?redirect_to=${encodeURIComponent(redirectTo)}`
+    : path
+}
+
+/**
+ * Creates the `client.auth.admin` namespace for server-side user management
+ * under `/auth/v1/admin`.
+ *
+ * Requests are sent with the API key as the bearer, so they need a secret
+ * (or legacy service_role) key. Every method fails with `SupabaseError`
+ * before sending anything when the key is a publishable one. Like the
+ * client's auth methods, each accepts `throwOnError`.
+ */
+export function createAuthAdminClient<ThrowOnError extends boolean>(
+  fetchRequest: DoFetchFn,
+  apiKey: string,
+  respond: RespondFn
+) {
+  async function json<T>(
+    method: HttpMethod,
+    endpoint: string,
+    body?: unknown,
+    options?: TrackedRequestOptions
+  ): Promise<T> {
+    const response = await send(method, endpoint, body, options)
+    return readJson<T>(response)
+  }
+
+  function send(
+    method: HttpMethod,
+    endpoint: string,
+    body?: unknown,
+    options?: TrackedRequestOptions
+  ): Promise<Response> {
+    if (detectKeyType(apiKey) === 'publishable') {
+      return Promise.reject(
+        new SupabaseError(ERROR_MESSAGES.ADMIN_KEY_REQUIRED)
+      )
+    }
+    return fetchRequest(
+      method,
+      endpoint,
+      body === undefined ? undefined : JSON.stringify(body),
+      options
+    )
+  }
+
+  const userPath = (id: string) =>
+    `${ADMIN_API_PATH}/users/${encodeURIComponent(id)}`
+
+  return {
+    /** Lists users a page at a time, with the total and next page. */
+    listUsers<Throw extends boolean = ThrowOnError>(
+      options: ListUsersOptions & ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<UserList, Throw, AuthError>> {
+      const {
+        page = 1,
+        perPage = 50,
+        throwOnError,
+        ...requestOptions
+      } = options
+      return respond(throwOnError, async (onResponse) => {
+        const response = await send(
+          'GET',
+          `${ADMIN_API_PATH}/users?page=${page}&per_page=${perPage}`,
+          undefined,
+          { ...requestOptions, onResponse }
+        )
+        const data = await readJson<{ users?: AuthUser[] }>(response)
+        const pages = linkPages(response.headers.get('Link'))
+        return {
+          users: data.users ?? [],
+          total: Number(response.headers.get('X-Total-Count') ?? 0),
+          nextPage: pages.next ?? null,
+          lastPage: pages.last ?? page
+        }
+      })
+    },
+
+    getUserById<Throw extends boolean = ThrowOnError>(
+      id: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthUser, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        json<AuthUser>('GET', userPath(id), undefined, { onResponse })
+      )
+    },
+
+    /** Creates a user without sending any email unless asked to. */
+    createUser<Throw extends boolean = ThrowOnError>(
+      attributes: AdminUserAttributes,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthUser, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        json<AuthUser>('POST', `${ADMIN_API_PATH}/users`, attributes, {
+          onResponse
+        })
+      )
+    },
+
+    /**
+     * Updates any user field, including `ban_duration` (`'none'` unbans)
+     * and `app_metadata`.
+     */
+    updateUserById<Throw extends boolean = ThrowOnError>(
+      id: string,
+      attributes: AdminUserAttributes,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthUser, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        json<AuthUser>('PUT', userPath(id), attributes, { onResponse })
+      )
+    },
+
+    /**
+     * Deletes a user. A soft delete keeps the row (with its id) and
+     * scrambles the personal data.
+     */
+    deleteUser<Throw extends boolean = ThrowOnError>(
+      id: string,
+      shouldSoftDelete = false,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthUser, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        json<AuthUser>(
+          'DELETE',
+          userPath(id),
+          { should_soft_delete: shouldSoftDelete },
+          { onResponse }
+        )
+      )
+    },
+
+    /** Sends an invite email to a new user. */
+    inviteUserByEmail<Throw extends boolean = ThrowOnError>(
+      email: string,
+      options: {
+        data?: Record<string, unknown>
+        redirectTo?: string
+      } & ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthUser, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        json<AuthUser>(
+          'POST',
+          withRedirect(INVITE_API_PATH, options.redirectTo),
+          { email, data: options.data },
+          { onResponse }
+        )
+      )
+    },
+
+    /**
+     * Generates an email action link (and OTP) without sending it, for
+     * delivering through your own email provider.
+     */
+    generateLink<Throw extends boolean = ThrowOnError>(
+      params: GenerateLinkParams,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<GeneratedLink, Throw, AuthError>> {
+      const { options: linkOptions = {}, ...fields } = params
+      return respond(options.throwOnError, async (onResponse) => {
+        const {
+          action_link,
+          email_otp,
+          hashed_token,
+          redirect_to,
+          verification_type,
+          ...user
+        } = await json<GeneratedLink['properties'] & AuthUser>(
+          'POST',
+          `${ADMIN_API_PATH}/generate_link`,
+          {
+            type: fields.type,
+            email: fields.email,
+            password: 'password' in fields ? fields.password : undefined,
+            new_email: 'newEmail' in fields ? fields.newEmail : undefined,
+            data: 'data' in linkOptions ? linkOptions.data : undefined,
+            redirect_to: linkOptions.redirectTo
+          },
+          { onResponse }
+        )
+        return {
+          properties: {
+            action_link,
+            email_otp,
+            hashed_token,
+            redirect_to,
+            verification_type
+          },
+          user
+        }
+      })
+    },
+
+    /** Lists a user's MFA factors. */
+    listFactors<Throw extends boolean = ThrowOnError>(
+      userId: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthFactor[], Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        json<AuthFactor[]>('GET', `${userPath(userId)}/factors`, undefined, {
+          onResponse
+        })
+      )
+    },
+
+    /** Removes an MFA factor, e.g. when a user lost their device. */
+    deleteFactor<Throw extends boolean = ThrowOnError>(
+      userId: string,
+      factorId: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<{ id: string }, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        json<{ id: string }>(
+          'DELETE',
+          `${userPath(userId)}/factors/${encodeURIComponent(factorId)}`,
+          undefined,
+          { onResponse }
+        )
+      )
+    }
+  }
+}
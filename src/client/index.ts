@@ -3,35 +3,218 @@ import {
   AuthTokenResponse,
   AuthSessionResponse,
   AuthSignUpResponse,
+  AuthSession,
+  AuthChangeEvent,
+  AuthStateChangeCallback,
+  AuthUser,
   TokenRequestPayload,
   MagicLinkPayload,
+  OtpPayload,
   VerifyOTPPayload,
+  WriteOptions,
+  WriteResult,
+  QueryParamValue,
   QueryParams,
   HttpMethod,
+  RequestOptions,
+  RequestResult,
+  TrackedRequestOptions,
+  ThrowOnErrorOption,
+  CallResult,
+  RestError,
+  AuthError,
+  QueryBuilder,
+  FilterBuilder,
+  FunctionArgs,
+  FunctionName,
+  FunctionReturns,
+  FunctionRow,
+  RpcOptions,
+  RpcResult,
+  PageOptions,
+  PageResult,
+  PaginateOptions,
+  InsertOptions,
+  InsertResult,
+  UpsertOptions,
+  ColumnName,
+  DefaultSchemaName,
+  GenericDatabase,
+  SchemaOf,
+  TableInsert,
+  TableOrViewName,
+  TableQueryParams,
+  TableRow,
+  TableUpdate,
   SupabaseError,
+  PostgrestError,
+  AuthApiError,
   SignUpOptions,
+  PhoneSignUpOptions,
+  EmailOtpType,
+  OtpCredentials,
+  OtpResponse,
+  SignInWithOtpOptions,
+  VerifyOtpParams,
+  ResendParams,
   AnonymousSignInOptions,
   OAuthProvider,
   OAuthSignInOptions,
-  OAuthSignInResponse
+  OAuthSignInResponse,
+  RealtimeChannel,
+  RealtimeChannelOptions,
+  RealtimePushStatus,
+  DecodedJwt,
+  GetClaimsOptions,
+  JsonWebKeySet
 } from '../types/index.js'
 import {
+  REST_API_PATH,
+  AUTH_API_PATH,
   TOKEN_API_PATH,
   SIGNUP_API_PATH,
   MAGIC_LINK_API_PATH,
   RECOVER_API_PATH,
   VERIFY_API_PATH,
+  OTP_API_PATH,
+  RESEND_API_PATH,
   USER_API_PATH,
   LOGOUT_API_PATH,
   INVITE_API_PATH,
   RESET_API_PATH,
+  AUTHORIZE_API_PATH,
+  JWKS_API_PATH,
+  REALTIME_API_PATH,
+  CLIENT_INFO,
   ERROR_MESSAGES
 } from '../utils/constants/index.js'
+import {
+  createQueryBuilder,
+  createRpcBuilder,
+  formatQueryParam
+} from '../query/index.js'
+import { fetchPage, paginate } from '../pagination/index.js'
+import { insertRows } from '../mutation/index.js'
+import { createStorageClient } from '../storage/index.js'
+import { createFunctionsClient } from '../functions/index.js'
+import { createRealtimeClient } from '../realtime/index.js'
+import { createAuthAdminClient } from '../admin/index.js'
+import { createMfaClient } from '../mfa/index.js'
+import {
+  decodeJwt,
+  isSupportedJwtAlgorithm,
+  verifyJwt
+} from '../utils/jwt/index.js'
+import {
+  createAuthEventEmitter,
+  createSessionManager,
+  isTokenResponse,
+  toSession
+} from '../session/index.js'
+import {
+  createMemoryStorage,
+  defaultStorageKey,
+  deserializeSession,
+  serializeSession
+} from '../utils/storage/index.js'
+import {
+  generateCodeChallenge,
+  generateCodeVerifier
+} from '../utils/pkce/index.js'
+import {
+  composeInterceptors,
+  fetchWithPolicy,
+  readJson,
+  type FetchPolicy
+} from '../utils/fetch/index.js'
+import { settle } from '../utils/result/index.js'
+
+const RECOVERY_VERIFIER_SUFFIX = '/PASSWORD_RECOVERY'
+// How long a fetched JWKS is reused before `getClaims` fetches it again
+const JWKS_CACHE_MS = 10 * 60 * 1000
+
+// Query values for services other than PostgREST, which take them as sent
+function formatPlainParam(
+  key: string,
+  value: QueryParamValue
+): string | undefined {
+  if (value === undefined || typeof value === 'string') {
+    return value
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value)
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  throw new SupabaseError(`${ERROR_MESSAGES.INVALID_QUERY_PARAM}: ${key}`)
+}
+
+function captchaMeta(captchaToken?: string): Record<string, unknown> {
+  return captchaToken ? { captcha_token: captchaToken } : {}
+}
+
+function redirectParams(redirectTo?: string): QueryParams | undefined {
+  return redirectTo ? { redirect_to: redirectTo } : undefined
+}
+
+// PostgREST reads the schema from Accept-Profile on reads and from
+// Content-Profile on writes
+function withSchema(
+  method: HttpMethod,
+  schema: string | undefined,
+  options: TrackedRequestOptions = {}
+): TrackedRequestOptions {
+  if (!schema) {
+    return options
+  }
+  const header =
+    method === 'GET' || method === 'HEAD' ? 'Accept-Profile' : 'Content-Profile'
+  return { ...options, headers: { [header]: schema, ...options.headers } }
+}
+
+// CSV, text query plans and other non-JSON formats asked for through
+// `Accept` are returned as text
+function acceptsJson(options: RequestOptions = {}): boolean {
+  const mediaType = options.headers?.Accept?.split(';')[0]
+  return !mediaType || /json/i.test(mediaType)
+}
+
+// Asks PostgREST to echo the written rows only when `returning` says so. A
+// per-call `Prefer` header still wins.
+function withReturning(
+  options: WriteOptions & TrackedRequestOptions
+): TrackedRequestOptions {
+  const { returning, ...requestOptions } = options
+  if (!returning) {
+    return requestOptions
+  }
+  return {
+    ...requestOptions,
+    headers: { Prefer: `return=${returning}`, ...requestOptions.headers }
+  }
+}
 
 /**
  * Creates a new Supabase client instance with authentication, user, and REST methods.
+ *
+ * Pass a generated `Database` type to infer rows, inserts and updates from
+ * table names: `createSupabaseClient<Database>(config)`. With
+ * `throwOnError: false` in the config, calls resolve to `{ data, error }`
+ * results; when passing `Database` explicitly, pass `false` as the third
+ * type argument too. Likewise a `db.schema` other than the default is
+ * passed as the second: `createSupabaseClient<Database, 'api'>(config)`.
  */
-export function createSupabaseClient(config: ClientConfig) {
+export function createSupabaseClient<
+  Database = GenericDatabase,
+  SchemaName extends keyof Database = DefaultSchemaName<Database>,
+  ThrowOnError extends boolean = true
+>(
+  config: ClientConfig & {
+    db?: { schema?: SchemaName }
+    throwOnError?: ThrowOnError
+  }
+) {
   if (!config.baseUrl || !config.apiKey) {
     throw new SupabaseError(ERROR_MESSAGES.INVALID_CONFIG)
   }
@@ -39,6 +222,105 @@ export function createSupabaseClient(config: ClientConfig) {
   let baseUrl = config.baseUrl.replace(/\/+$/, '')
   let apiKey = config.apiKey
   let token = config.token
+  const storage = config.storage
+  // A persisted session has to be kept and refreshed, so storage implies
+  // session mode
+  const autoRefreshToken = (config.autoRefreshToken ?? false) || !!storage
+  const storageKey = config.storageKey ?? defaultStorageKey(baseUrl)
+  const flowType = config.flowType ?? 'implicit'
+  // The verifier has to survive the redirect, so it uses `storage` when set
+  const verifierStorage = storage ?? createMemoryStorage()
+  const verifierKey = `${storageKey}-code-verifier`
+
+  const events = createAuthEventEmitter()
+  const sessions = createSessionManager({
+    refresh: (refreshTokenValue) =>
+      auth(`${TOKEN_API_PATH}?grant_type=refresh_token`, {
+        refresh_token: refreshTokenValue
+      }),
+    onSessionChange: (session) => {
+      token = session?.access_token
+      persistSession(session)
+    },
+    onRefresh: (session) => events.emit('TOKEN_REFRESHED', session),
+    onRefreshRejected: () => events.emit('SIGNED_OUT', null),
+    refreshMarginSeconds: config.refreshMarginSeconds ?? 60,
+    autoRefresh: autoRefreshToken
+  })
+
+  function persistSession(session: AuthSession | null) {
+    if (!storage) {
+      return
+    }
+    const write = session
+      ? storage.set(storageKey, serializeSession(session))
+      : storage.remove(storageKey)
+    // Persistence is best effort; the in-memory session stays authoritative
+    write.catch(() => {})
+  }
+
+  async function restoreSession(): Promise<AuthSession | null> {
+    if (!storage) {
+      return sessions.getSession()
+    }
+
+    const stored = await storage.get(storageKey).catch(() => null)
+    const session = deserializeSession(stored)
+    if (!session && stored) {
+      // Drop corrupt or outdated entries
+      persistSession(null)
+    }
+    // A session set while storage was being read wins over the stored one
+    if (session && !sessions.getSession()) {
+      sessions.setSession(session)
+    }
+    return sessions.getSession()
+  }
+
+  const initialized = restoreSession()
+
+  let jwksCache: { jwks: JsonWebKeySet; fetchedAt: number } | null = null
+
+  const realtime = createRealtimeClient(
+    `${baseUrl.replace(/^http/, 'ws')}${REALTIME_API_PATH}/websocket`,
+    apiKey,
+    () => token,
+    config.realtime
+  )
+  // Joined channels get the new token whenever it changes. Restoring a
+  // stored session emits no event, so it is picked up here too.
+  events.subscribe(() => realtime.setAuth())
+  void initialized.then(() => realtime.setAuth())
+
+  /**
+   * Creates and stores a PKCE verifier, returning its S256 challenge.
+   * Recovery verifiers are tagged so their exchange emits PASSWORD_RECOVERY.
+   */
+  async function createCodeChallenge(recovery = false) {
+    const verifier = generateCodeVerifier()
+    const stored = recovery
+      ? `${verifier}${RECOVERY_VERIFIER_SUFFIX}`
+      : verifier
+    await verifierStorage.set(verifierKey, stored)
+    return {
+      code_challenge: await generateCodeChallenge(verifier),
+      code_challenge_method: 's256'
+    }
+  }
+
+  /**
+   * Stores session-bearing auth responses when session mode is on and
+   * notifies listeners. Responses without a token pair pass through.
+   */
+  function captureSession<T>(event: AuthChangeEvent, response: T): T {
+    if (isTokenResponse(response)) {
+      const session = autoRefreshToken
+        ? sessions.setSession(response)
+        : toSession(response)
+      events.emit(event, session)
+    }
+    return response
+  }
 
   function parseResponseBody(text: string): unknown {
     if (!text) {
@@ -69,76 +351,220 @@ export function createSupabaseClient(config: ClientConfig) {
     return null
   }
 
+  // Errors from the REST and Auth APIs get their own classes with the
+  // codes those services return
   function createRequestError(
     prefix: string,
     response: Response,
-    text: string
+    text: string,
+    url: string
   ): SupabaseError {
     const parsed = parseResponseBody(text)
     const message = pickErrorMessage(parsed) ?? text.trim()
     const suffix = message ? ` ${message}` : ''
+    const ErrorClass = url.startsWith(`${baseUrl}${REST_API_PATH}`)
+      ? PostgrestError
+      : url.startsWith(`${baseUrl}${AUTH_API_PATH}`)
+        ? AuthApiError
+        : SupabaseError
 
-    return new SupabaseError(
+    return new ErrorClass(
       `${prefix}: ${response.status}${suffix}`,
       response.status,
       parsed
     )
   }
 
-  // Core HTTP request method
-  async function request(
+  // Per-call options override the client timeout and retry policy; a
+  // per-call timeout of 0 or false turns the client one off
+  function fetchPolicy(requestOptions: RequestOptions): FetchPolicy {
+    return {
+      timeout:
+        requestOptions.timeout === undefined
+          ? config.timeout
+          : requestOptions.timeout || undefined,
+      signal: requestOptions.signal,
+      fetch: config.fetch,
+      retry:
+        requestOptions.retry === false
+          ? undefined
+          : { ...config.retry, ...requestOptions.retry }
+    }
+  }
+
+  // Every endpoint goes through here: default headers, then the
+  // interceptors, then the timeout and retry policy
+  async function send(
     method: HttpMethod,
-    endpoint: string,
-    body?: unknown,
-    queryParams?: QueryParams
-  ): Promise<unknown> {
-    const url = buildUrl(endpoint, queryParams)
+    url: string,
+    body: BodyInit | undefined,
+    bearer: string,
+    requestOptions: TrackedRequestOptions
+  ): Promise<Response> {
+    const dispatch = composeInterceptors(
+      config.interceptors ?? [],
+      (outgoing) =>
+        fetchWithPolicy(
+          outgoing.url,
+          {
+            method: outgoing.method,
+            headers: outgoing.headers,
+            body: outgoing.body
+          },
+          fetchPolicy(requestOptions)
+        )
+    )
     const headers: Record<string, string> = {
       apikey: apiKey,
-      Authorization: `Bearer ${token || apiKey}`,
-      'Content-Type': 'application/json'
+      Authorization: `Bearer ${bearer}`,
+      'Content-Type': 'application/json',
+      'x-client-info': CLIENT_INFO,
+      ...config.headers,
+      ...requestOptions.headers
     }
-    const options: RequestInit = {
-      method,
-      headers
+    if (body instanceof FormData && !requestOptions.headers?.['Content-Type']) {
+      // fetch sets the multipart boundary itself
+      delete headers['Content-Type']
     }
-    if (body !== undefined) {
-      options.body = JSON.stringify(body)
+    const response = await dispatch({ method, url, headers, body })
+    requestOptions.onResponse?.(response)
+    return response
+  }
+
+  function serializeBody(body: unknown): BodyInit | undefined {
+    return body === undefined ? undefined : JSON.stringify(body)
+  }
+
+  // Sends with the user token. In session mode the session is refreshed
+  // first when due, and once more after a 401.
+  async function authorizedFetch(
+    method: HttpMethod,
+    endpoint: string,
+    body?: BodyInit,
+    requestOptions: TrackedRequestOptions = {}
+  ): Promise<Response> {
+    const url = buildUrl(endpoint)
+
+    await initialized
+    if (autoRefreshToken) {
+      await sessions.getFreshSession()
     }
     // Make request
-    const response = await fetch(url, options)
+    let response = await send(
+      method,
+      url,
+      body,
+      token || apiKey,
+      requestOptions
+    )
+    if (
+      response.status === 401 &&
+      autoRefreshToken &&
+      sessions.getSession() &&
+      !(body instanceof ReadableStream)
+    ) {
+      // The access token was rejected; refresh once and retry
+      await sessions.refreshSession()
+      response = await send(method, url, body, token || apiKey, requestOptions)
+    }
+    return response
+  }
+
+  // Like authorizedFetch, but non-2xx responses throw
+  async function authorizedRequest(
+    method: HttpMethod,
+    endpoint: string,
+    body?: BodyInit,
+    requestOptions: TrackedRequestOptions = {}
+  ): Promise<Response> {
+    const response = await authorizedFetch(
+      method,
+      endpoint,
+      body,
+      requestOptions
+    )
     if (!response.ok) {
       const text = await response.text()
-      throw createRequestError('Request failed', response, text)
+      throw createRequestError(
+        'Request failed',
+        response,
+        text,
+        buildUrl(endpoint)
+      )
     }
+    return response
+  }
+
+  // Core HTTP request method, keeping the response status and headers
+  async function requestWithResponse(
+    method: HttpMethod,
+    endpoint: string,
+    body?: unknown,
+    queryParams?: QueryParams,
+    requestOptions?: TrackedRequestOptions
+  ): Promise<RequestResult> {
+    const response = await authorizedRequest(
+      method,
+      buildUrl(endpoint, queryParams),
+      serializeBody(body),
+      requestOptions
+    )
     const text = await response.text()
-    return parseResponseBody(text)
+    return {
+      data: acceptsJson(requestOptions) ? parseResponseBody(text) : text,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    }
   }
 
-  async function publicRequest(
+  async function request(
     method: HttpMethod,
     endpoint: string,
     body?: unknown,
-    queryParams?: QueryParams
+    queryParams?: QueryParams,
+    requestOptions?: TrackedRequestOptions
   ): Promise<unknown> {
-    const url = buildUrl(endpoint, queryParams)
-    const headers: Record<string, string> = {
-      apikey: apiKey,
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json'
-    }
-    const options: RequestInit = {
+    const { data } = await requestWithResponse(
       method,
-      headers
-    }
-    if (body !== undefined) {
-      options.body = JSON.stringify(body)
-    }
-    const response = await fetch(url, options)
+      endpoint,
+      body,
+      queryParams,
+      requestOptions
+    )
+    return data
+  }
+
+  // Sends with the API key as the bearer, never the user token. Non-2xx
+  // responses throw.
+  async function apiKeyRequest(
+    method: HttpMethod,
+    endpoint: string,
+    body?: BodyInit,
+    requestOptions: TrackedRequestOptions = {}
+  ): Promise<Response> {
+    const url = buildUrl(endpoint)
+    const response = await send(method, url, body, apiKey, requestOptions)
     if (!response.ok) {
       const text = await response.text()
-      throw createRequestError('Request failed', response, text)
+      throw createRequestError('Request failed', response, text, url)
     }
+    return response
+  }
+
+  async function publicRequest(
+    method: HttpMethod,
+    endpoint: string,
+    body?: unknown,
+    queryParams?: QueryParams,
+    requestOptions: TrackedRequestOptions = {}
+  ): Promise<unknown> {
+    const response = await apiKeyRequest(
+      method,
+      buildUrl(endpoint, queryParams),
+      serializeBody(body),
+      requestOptions
+    )
     const text = await response.text()
     return parseResponseBody(text)
   }
@@ -146,26 +572,127 @@ export function createSupabaseClient(config: ClientConfig) {
   // Auth request method
   async function auth(
     endpoint: string,
-    payload: TokenRequestPayload
+    payload: TokenRequestPayload,
+    requestOptions: TrackedRequestOptions = {}
   ): Promise<AuthTokenResponse> {
-    const url = endpoint.startsWith('http')
-      ? endpoint
-      : `${baseUrl}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`
-    const headers: Record<string, string> = {
-      apikey: apiKey,
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json'
-    }
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(payload)
-    })
+    const url = buildUrl(endpoint)
+    const response = await send(
+      'POST',
+      url,
+      serializeBody(payload),
+      apiKey,
+      requestOptions
+    )
     if (!response.ok) {
       const text = await response.text()
-      throw createRequestError('Auth request failed', response, text)
+      throw createRequestError('Auth request failed', response, text, url)
+    }
+    return readJson<AuthTokenResponse>(response)
+  }
+
+  async function signUpWith(
+    payload: TokenRequestPayload,
+    queryParams?: QueryParams,
+    requestOptions?: TrackedRequestOptions
+  ): Promise<AuthSignUpResponse> {
+    const response = (await publicRequest(
+      'POST',
+      SIGNUP_API_PATH,
+      payload,
+      queryParams,
+      requestOptions
+    )) as AuthSignUpResponse
+    // Depending on the project settings the session is top-level or nested
+    const session = 'session' in response ? response.session : response
+    captureSession('SIGNED_IN', session)
+    return response
+  }
+
+  async function signInWithPassword(
+    credentials: OtpCredentials & { password: string },
+    requestOptions?: TrackedRequestOptions
+  ): Promise<AuthTokenResponse> {
+    const path = `${TOKEN_API_PATH}?grant_type=password`
+    return captureSession(
+      'SIGNED_IN',
+      await auth(path, credentials, requestOptions)
+    )
+  }
+
+  /**
+   * Verifies an email or phone OTP, or the token hash from an email link,
+   * and signs the user in.
+   */
+  async function verifyOtp(
+    params: VerifyOtpParams,
+    requestOptions?: TrackedRequestOptions
+  ): Promise<AuthSessionResponse> {
+    const payload: VerifyOTPPayload =
+      'tokenHash' in params
+        ? { token_hash: params.tokenHash, type: params.type }
+        : {
+            ...('email' in params
+              ? { email: params.email }
+              : { phone: params.phone }),
+            token: params.token,
+            type: params.type,
+            gotrue_meta_security: captchaMeta(params.captchaToken)
+          }
+    const event = params.type === 'recovery' ? 'PASSWORD_RECOVERY' : 'SIGNED_IN'
+    const response = await publicRequest(
+      'POST',
+      VERIFY_API_PATH,
+      payload,
+      undefined,
+      requestOptions
+    )
+    return captureSession(event, response as AuthSessionResponse)
+  }
+
+  // Reuses the cached JWKS unless it is stale or lacks the token's key,
+  // which happens right after a signing key rotation
+  async function getJwks(kid?: string): Promise<JsonWebKeySet> {
+    const cached = jwksCache
+    if (
+      cached &&
+      Date.now() - cached.fetchedAt < JWKS_CACHE_MS &&
+      (!kid || cached.jwks.keys.some((key) => key.kid === kid))
+    ) {
+      return cached.jwks
+    }
+    const response = await apiKeyRequest('GET', JWKS_API_PATH)
+    const jwks = await readJson<JsonWebKeySet>(response)
+    jwksCache = { jwks, fetchedAt: Date.now() }
+    return jwks
+  }
+
+  /**
+   * Runs a call in the mode asked for: resolving to its data and throwing
+   * on errors, or settling into a `{ data, error }` result.
+   */
+  function respond<Data, Throw extends boolean, Error extends SupabaseError>(
+    throwOnError: boolean | undefined,
+    run: (onResponse?: (response: Response) => void) => Promise<Data>,
+    countOf?: (data: Data) => number | null
+  ): Promise<CallResult<Data, Throw, Error>> {
+    const result =
+      (throwOnError ?? config.throwOnError ?? true)
+        ? run()
+        : settle(run, countOf)
+    return result as Promise<CallResult<Data, Throw, Error>>
+  }
+
+  // Bare table names resolve under the PostgREST path; endpoints that
+  // already name it, like `rest/v1/posts`, are left as they are
+  function restEndpoint(endpoint: string): string {
+    if (
+      endpoint.startsWith('/') ||
+      endpoint.startsWith('http') ||
+      endpoint.startsWith(`${REST_API_PATH.slice(1)}/`)
+    ) {
+      return endpoint
     }
-    return response.json()
+    return `${REST_API_PATH}/${endpoint}`
   }
 
   function buildUrl(endpoint: string, queryParams?: QueryParams): string {
@@ -173,10 +700,15 @@ export function createSupabaseClient(config: ClientConfig) {
       ? endpoint
       : `${baseUrl}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`
     if (queryParams) {
+      // Only PostgREST paths take filter encoding
+      const format = url.startsWith(`${baseUrl}${REST_API_PATH}/`)
+        ? formatQueryParam
+        : formatPlainParam
       const params = new URLSearchParams()
       for (const [key, value] of Object.entries(queryParams)) {
-        if (typeof value === 'string') {
-          params.set(key, value)
+        const formatted = format(key, value)
+        if (formatted !== undefined) {
+          params.set(key, formatted)
         }
       }
       const query = params.toString()
@@ -187,6 +719,402 @@ export function createSupabaseClient(config: ClientConfig) {
     return url
   }
 
+  /**
+   * The REST methods for one schema. Reads name it in `Accept-Profile` and
+   * writes in `Content-Profile`; without a schema neither header is sent
+   * and PostgREST uses its default.
+   */
+  function createRestMethods<SchemaKey extends keyof Database>(
+    schema?: string
+  ) {
+    type Schema = SchemaOf<Database, SchemaKey>
+
+    function schemaRequestWithResponse(
+      method: HttpMethod,
+      endpoint: string,
+      body?: unknown,
+      queryParams?: QueryParams,
+      requestOptions?: TrackedRequestOptions
+    ): Promise<RequestResult> {
+      return requestWithResponse(
+        method,
+        endpoint,
+        body,
+        queryParams,
+        withSchema(method, schema, requestOptions)
+      )
+    }
+
+    async function schemaRequest(
+      method: HttpMethod,
+      endpoint: string,
+      body?: unknown,
+      queryParams?: QueryParams,
+      requestOptions?: TrackedRequestOptions
+    ): Promise<unknown> {
+      const { data } = await schemaRequestWithResponse(
+        method,
+        endpoint,
+        body,
+        queryParams,
+        requestOptions
+      )
+      return data
+    }
+
+    return {
+      /** Starts a PostgREST query against a table or view. */
+      from<Name extends TableOrViewName<Schema>>(
+        table: Name
+      ): QueryBuilder<
+        TableRow<Schema, Name>,
+        TableInsert<Schema, Name>,
+        TableUpdate<Schema, Name>,
+        ThrowOnError
+      > {
+        return createQueryBuilder(
+          schemaRequestWithResponse,
+          table,
+          config.throwOnError ?? true
+        )
+      },
+
+      /**
+       * Calls a Postgres function through PostgREST. Set-returning functions
+       * can be filtered, ordered and limited like a table.
+       *
+       * @example
+       * ```typescript
+       * const nearby = await client
+       *   .rpc('nearby_stores', { lat: 35.68, long: 139.76 })
+       *   .lt('distance', 1000)
+       *   .order('distance')
+       *   .limit(5)
+       * ```
+       */
+      rpc<
+        Name extends FunctionName<Schema>,
+        Options extends RpcOptions = Record<never, never>
+      >(
+        fn: Name,
+        args?: FunctionArgs<Schema, Name>,
+        options?: Options
+      ): FilterBuilder<
+        FunctionRow<FunctionReturns<Schema, Name>>,
+        RpcResult<FunctionReturns<Schema, Name>, Options>,
+        ThrowOnError
+      > {
+        return createRpcBuilder(
+          schemaRequestWithResponse,
+          fn,
+          args,
+          options,
+          config.throwOnError ?? true
+        )
+      },
+
+      /** Performs a GET request to fetch data. */
+      get<
+        Name extends TableOrViewName<Schema>,
+        Throw extends boolean = ThrowOnError
+      >(
+        endpoint: Name,
+        queryParams?: TableQueryParams<TableRow<Schema, Name>>,
+        options: RequestOptions & ThrowOnErrorOption<Throw> = {}
+      ): Promise<CallResult<TableRow<Schema, Name>[], Throw, RestError>> {
+        return respond(
+          options.throwOnError,
+          (onResponse) =>
+            schemaRequest(
+              'GET',
+              restEndpoint(endpoint),
+              undefined,
+              queryParams,
+              {
+                ...options,
+                onResponse
+              }
+            ) as Promise<TableRow<Schema, Name>[]>
+        )
+      },
+
+      /**
+       * Fetches rows `from` to `to` (inclusive) using a `Range` header, with
+       * the total when `count` is set. A range past the end is an empty page.
+       */
+      getPage<
+        Name extends TableOrViewName<Schema>,
+        Throw extends boolean = ThrowOnError
+      >(
+        endpoint: Name,
+        from: number,
+        to: number,
+        options: PageOptions<TableRow<Schema, Name>> &
+          ThrowOnErrorOption<Throw> = {}
+      ): Promise<
+        CallResult<PageResult<TableRow<Schema, Name>>, Throw, RestError>
+      > {
+        return respond(
+          options.throwOnError,
+          (onResponse) =>
+            fetchPage(
+              schemaRequestWithResponse,
+              restEndpoint(endpoint),
+              from,
+              to,
+              {
+                ...options,
+                onResponse
+              }
+            ),
+          (page) => page.count
+        )
+      },
+
+      /**
+       * Walks a table page by page, by range or by keyset `cursor`.
+       *
+       * @example
+       * ```typescript
+       * for await (const page of client.paginate('posts', { pageSize: 500 })) {
+       *   await index(page.data)
+       * }
+       * ```
+       */
+      paginate<Name extends TableOrViewName<Schema>>(
+        endpoint: Name,
+        options?: PaginateOptions<TableRow<Schema, Name>>
+      ): AsyncGenerator<PageResult<TableRow<Schema, Name>>, void, undefined> {
+        return paginate(
+          schemaRequestWithResponse,
+          restEndpoint(endpoint),
+          options
+        )
+      },
+
+      /**
+       * Inserts one row or an array of rows. Large arrays are split into
+       * `chunkSize` requests whose results are combined.
+       */
+      insert<
+        Name extends TableOrViewName<Schema>,
+        Options extends InsertOptions<TableRow<Schema, Name>> = Record<
+          never,
+          never
+        >,
+        Throw extends boolean = ThrowOnError
+      >(
+        endpoint: Name,
+        values: TableInsert<Schema, Name> | TableInsert<Schema, Name>[],
+        options?: Options & ThrowOnErrorOption<Throw>
+      ): Promise<
+        CallResult<
+          InsertResult<TableRow<Schema, Name>, Options>,
+          Throw,
+          RestError
+        >
+      > {
+        return respond(
+          options?.throwOnError,
+          (onResponse) =>
+            insertRows(
+              schemaRequestWithResponse,
+              restEndpoint(endpoint),
+              values,
+              {
+                ...options,
+                onResponse
+              }
+            ) as Promise<InsertResult<TableRow<Schema, Name>, Options>>,
+          (result) => result.count
+        )
+      },
+
+      /**
+       * Inserts rows, merging (or with `ignoreDuplicates`, skipping) those that
+       * conflict on the primary key or the `onConflict` columns.
+       */
+      upsert<
+        Name extends TableOrViewName<Schema>,
+        Options extends UpsertOptions<TableRow<Schema, Name>> = Record<
+          never,
+          never
+        >,
+        Throw extends boolean = ThrowOnError
+      >(
+        endpoint: Name,
+        values: TableInsert<Schema, Name> | TableInsert<Schema, Name>[],
+        options?: Options & ThrowOnErrorOption<Throw>
+      ): Promise<
+        CallResult<
+          InsertResult<TableRow<Schema, Name>, Options>,
+          Throw,
+          RestError
+        >
+      > {
+        return respond(
+          options?.throwOnError,
+          (onResponse) =>
+            insertRows(
+              schemaRequestWithResponse,
+              restEndpoint(endpoint),
+              values,
+              { ...options, onResponse },
+              true
+            ) as Promise<InsertResult<TableRow<Schema, Name>, Options>>,
+          (result) => result.count
+        )
+      },
+
+      /** Performs a POST request to create data. */
+      post<
+        Name extends TableOrViewName<Schema>,
+        Options extends WriteOptions = Record<never, never>,
+        Throw extends boolean = ThrowOnError
+      >(
+        endpoint: Name,
+        data: TableInsert<Schema, Name> | TableInsert<Schema, Name>[],
+        options?: Options & ThrowOnErrorOption<Throw>
+      ): Promise<
+        CallResult<
+          WriteResult<TableRow<Schema, Name>, Options>,
+          Throw,
+          RestError
+        >
+      > {
+        return respond(
+          options?.throwOnError,
+          (onResponse) =>
+            schemaRequest(
+              'POST',
+              restEndpoint(endpoint),
+              data,
+              undefined,
+              withReturning({ ...options, onResponse })
+            ) as Promise<WriteResult<TableRow<Schema, Name>, Options>>
+        )
+      },
+
+      /**
+       * Performs a PUT request to replace a record. A string key value is a
+       * raw filter such as `eq.1`; a number matches with `eq`.
+       */
+      put<
+        Name extends TableOrViewName<Schema>,
+        Options extends WriteOptions = Record<never, never>,
+        Throw extends boolean = ThrowOnError
+      >(
+        endpoint: Name,
+        primaryKeyName: ColumnName<TableRow<Schema, Name>>,
+        primaryKeyValue: string | number,
+        data: TableInsert<Schema, Name>,
+        options?: Options & ThrowOnErrorOption<Throw>
+      ): Promise<
+        CallResult<
+          WriteResult<TableRow<Schema, Name>, Options>,
+          Throw,
+          RestError
+        >
+      > {
+        const queryParams = { [primaryKeyName]: primaryKeyValue }
+        return respond(
+          options?.throwOnError,
+          (onResponse) =>
+            schemaRequest(
+              'PUT',
+              restEndpoint(endpoint),
+              data,
+              queryParams,
+              withReturning({ ...options, onResponse })
+            ) as Promise<WriteResult<TableRow<Schema, Name>, Options>>
+        )
+      },
+
+      /** Performs a PATCH request to update records. */
+      patch<
+        Name extends TableOrViewName<Schema>,
+        Options extends WriteOptions = Record<never, never>,
+        Throw extends boolean = ThrowOnError
+      >(
+        endpoint: Name,
+        queryParams: TableQueryParams<TableRow<Schema, Name>>,
+        data: TableUpdate<Schema, Name>,
+        options?: Options & ThrowOnErrorOption<Throw>
+      ): Promise<
+        CallResult<
+          WriteResult<TableRow<Schema, Name>, Options>,
+          Throw,
+          RestError
+        >
+      > {
+        return respond(
+          options?.throwOnError,
+          (onResponse) =>
+            schemaRequest(
+              'PATCH',
+              restEndpoint(endpoint),
+              data,
+              queryParams,
+              withReturning({ ...options, onResponse })
+            ) as Promise<WriteResult<TableRow<Schema, Name>, Options>>
+        )
+      },
+
+      /**
+       * Performs a DELETE request to remove a record. A string key value is
+       * a raw filter such as `eq.1`; a number matches with `eq`.
+       */
+      del<
+        Name extends TableOrViewName<Schema>,
+        Throw extends boolean = ThrowOnError
+      >(
+        endpoint: Name,
+        primaryKeyName: ColumnName<TableRow<Schema, Name>>,
+        primaryKeyValue: string | number,
+        options: RequestOptions & ThrowOnErrorOption<Throw> = {}
+      ): Promise<CallResult<unknown, Throw, RestError>> {
+        const queryParams = { [primaryKeyName]: primaryKeyValue }
+        return respond(options.throwOnError, (onResponse) =>
+          schemaRequest(
+            'DELETE',
+            restEndpoint(endpoint),
+            undefined,
+            queryParams,
+            {
+              ...options,
+              onResponse
+            }
+          )
+        )
+      },
+
+      /** Alias for the REST delete method. */
+      delete<
+        Name extends TableOrViewName<Schema>,
+        Throw extends boolean = ThrowOnError
+      >(
+        endpoint: Name,
+        primaryKeyName: ColumnName<TableRow<Schema, Name>>,
+        primaryKeyValue: string | number,
+        options: RequestOptions & ThrowOnErrorOption<Throw> = {}
+      ): Promise<CallResult<unknown, Throw, RestError>> {
+        const queryParams = { [primaryKeyName]: primaryKeyValue }
+        return respond(options.throwOnError, (onResponse) =>
+          schemaRequest(
+            'DELETE',
+            restEndpoint(endpoint),
+            undefined,
+            queryParams,
+            {
+              ...options,
+              onResponse
+            }
+          )
+        )
+      }
+    }
+  }
+
   // Return the client object with all methods defined directly
   return {
     // Properties
@@ -199,133 +1127,394 @@ export function createSupabaseClient(config: ClientConfig) {
     // Core methods
     /** Sets the authentication token. */
     setToken: (newToken: string) => {
+      const previous = token
       token = newToken
+      if (!newToken) {
+        events.emit('SIGNED_OUT', null)
+      } else if (newToken !== previous) {
+        events.emit(
+          previous ? 'TOKEN_REFRESHED' : 'SIGNED_IN',
+          sessions.getSession()
+        )
+      }
     },
 
     /** Gets the current authentication token. */
     getToken: () => token,
 
+    /** Resolves once the persisted session (if any) has been restored. */
+    initialize: (): Promise<AuthSession | null> => initialized,
+
+    /** Gets the stored session, if any. */
+    getSession: (): AuthSession | null => sessions.getSession(),
+
+    /** Stores a session and uses its access token for requests. */
+    setSession: (session: AuthTokenResponse): AuthSession => {
+      const stored = sessions.setSession(session)
+      events.emit('SIGNED_IN', stored)
+      return stored
+    },
+
+    /** Refreshes the stored session, sharing any refresh already in flight. */
+    refreshSession: (): Promise<AuthSession> => sessions.refreshSession(),
+
+    /**
+     * Subscribes to auth state changes. The listener first receives
+     * `INITIAL_SESSION` once any persisted session has been restored.
+     *
+     * @returns A function that removes the listener.
+     */
+    onAuthStateChange(callback: AuthStateChangeCallback): () => void {
+      const unsubscribe = events.subscribe(callback)
+      void initialized.then((session) => {
+        if (events.has(callback)) {
+          callback('INITIAL_SESSION', session)
+        }
+      })
+      return unsubscribe
+    },
+
     /** Core HTTP request method. */
-    request,
+    request<Throw extends boolean = ThrowOnError>(
+      method: HttpMethod,
+      endpoint: string,
+      body?: unknown,
+      queryParams?: QueryParams,
+      options: RequestOptions & ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<unknown, Throw>> {
+      return respond(options.throwOnError, (onResponse) =>
+        request(method, endpoint, body, queryParams, { ...options, onResponse })
+      )
+    },
 
-    /** Auth request method. */
-    auth,
+    /**
+     * Auth request method. It also carries the auth namespaces:
+     * `auth.admin` for server-side user management (secret key only) and
+     * `auth.mfa` for the signed-in user's second factors.
+     */
+    auth: Object.assign(auth, {
+      admin: createAuthAdminClient<ThrowOnError>(
+        apiKeyRequest,
+        apiKey,
+        respond
+      ),
+      mfa: createMfaClient<ThrowOnError>(authorizedRequest, {
+        getAccessToken: () => token,
+        getSessionUser: () => sessions.getSession()?.user,
+        onVerified: (response) =>
+          captureSession('MFA_CHALLENGE_VERIFIED', response),
+        respond
+      })
+    }),
 
     // Auth methods
     /** Registers a new user with email and password. */
-    async signUp(
+    signUp<Throw extends boolean = ThrowOnError>(
       email: string,
       password: string,
-      options: SignUpOptions = {}
-    ): Promise<AuthSignUpResponse> {
-      const gotrueMetaSecurity: Record<string, unknown> = {}
-      if (options.captchaToken) {
-        gotrueMetaSecurity.captcha_token = options.captchaToken
-      }
-
-      const payload: TokenRequestPayload = {
-        email,
-        password,
-        data: options.data ?? {},
-        gotrue_meta_security: gotrueMetaSecurity,
-        code_challenge: null,
-        code_challenge_method: null
-      }
-
-      const queryParams = options.redirectTo
-        ? { redirect_to: options.redirectTo }
-        : undefined
+      options: SignUpOptions & ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthSignUpResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, async (onResponse) => {
+        const payload: TokenRequestPayload = {
+          email,
+          password,
+          data: options.data ?? {},
+          gotrue_meta_security: captchaMeta(options.captchaToken),
+          ...(flowType === 'pkce'
+            ? await createCodeChallenge()
+            : { code_challenge: null, code_challenge_method: null })
+        }
+        return signUpWith(payload, redirectParams(options.redirectTo), {
+          onResponse
+        })
+      })
+    },
 
-      return publicRequest(
-        'POST',
-        SIGNUP_API_PATH,
-        payload,
-        queryParams
-      ) as Promise<AuthSignUpResponse>
+    /**
+     * Registers a new user with phone and password. Unless phone
+     * confirmations are off, confirm with `verifyOtp({ type: 'sms' })`.
+     */
+    signUpWithPhone<Throw extends boolean = ThrowOnError>(
+      phone: string,
+      password: string,
+      options: PhoneSignUpOptions & ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthSignUpResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        signUpWith(
+          {
+            phone,
+            password,
+            data: options.data ?? {},
+            channel: options.channel ?? 'sms',
+            gotrue_meta_security: captchaMeta(options.captchaToken)
+          },
+          undefined,
+          { onResponse }
+        )
+      )
     },
 
     /** Starts an anonymous authenticated session. */
-    async signInAnonymously(
-      options: AnonymousSignInOptions = {}
-    ): Promise<AuthSessionResponse> {
-      const payload: TokenRequestPayload = {
-        data: options.data ?? {},
-        gotrue_meta_security: {}
-      }
-      return publicRequest(
-        'POST',
-        SIGNUP_API_PATH,
-        payload
-      ) as Promise<AuthSessionResponse>
+    signInAnonymously<Throw extends boolean = ThrowOnError>(
+      options: AnonymousSignInOptions & ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthSessionResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, async (onResponse) => {
+        const payload: TokenRequestPayload = {
+          data: options.data ?? {},
+          gotrue_meta_security: {}
+        }
+        const response = await publicRequest(
+          'POST',
+          SIGNUP_API_PATH,
+          payload,
+          undefined,
+          { onResponse }
+        )
+        return captureSession('SIGNED_IN', response as AuthSessionResponse)
+      })
     },
 
     /** Signs in a user with email and password. */
-    async signIn(email: string, password: string): Promise<AuthTokenResponse> {
-      const payload: TokenRequestPayload = { email, password }
-      const path = `${TOKEN_API_PATH}?grant_type=password`
-      return auth(path, payload)
+    signIn<Throw extends boolean = ThrowOnError>(
+      email: string,
+      password: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthTokenResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        signInWithPassword({ email, password }, { onResponse })
+      )
+    },
+
+    /** Signs in a user with phone and password. */
+    signInWithPhone<Throw extends boolean = ThrowOnError>(
+      phone: string,
+      password: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthTokenResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        signInWithPassword({ phone, password }, { onResponse })
+      )
     },
 
     /** Refreshes the authentication token. */
-    async refreshToken(refreshTokenValue: string): Promise<AuthTokenResponse> {
-      const payload: TokenRequestPayload = { refresh_token: refreshTokenValue }
-      const path = `${TOKEN_API_PATH}?grant_type=refresh_token`
-      return auth(path, payload)
+    refreshToken<Throw extends boolean = ThrowOnError>(
+      refreshTokenValue: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthTokenResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, async (onResponse) => {
+        const payload: TokenRequestPayload = {
+          refresh_token: refreshTokenValue
+        }
+        const path = `${TOKEN_API_PATH}?grant_type=refresh_token`
+        const response = await auth(path, payload, { onResponse })
+        return captureSession('TOKEN_REFRESHED', response)
+      })
     },
 
-    /** Exchanges an OAuth authorization code for a session token pair. */
-    async exchangeCodeForSession(
+    /**
+     * Exchanges an authorization code for a session token pair. Without an
+     * explicit `codeVerifier`, the verifier stored by the PKCE flow is used
+     * and then discarded.
+     */
+    exchangeCodeForSession<Throw extends boolean = ThrowOnError>(
       authCode: string,
-      codeVerifier: string
-    ): Promise<AuthTokenResponse> {
-      const payload: TokenRequestPayload = {
-        auth_code: authCode,
-        code_verifier: codeVerifier
-      }
-      const path = `${TOKEN_API_PATH}?grant_type=pkce`
-      return auth(path, payload)
+      codeVerifier?: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthTokenResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, async (onResponse) => {
+        let verifier = codeVerifier
+        let event: AuthChangeEvent = 'SIGNED_IN'
+        if (verifier === undefined) {
+          const stored = await verifierStorage.get(verifierKey)
+          if (!stored) {
+            throw new SupabaseError(ERROR_MESSAGES.MISSING_CODE_VERIFIER)
+          }
+          verifier = stored
+          if (stored.endsWith(RECOVERY_VERIFIER_SUFFIX)) {
+            verifier = stored.slice(0, -RECOVERY_VERIFIER_SUFFIX.length)
+            event = 'PASSWORD_RECOVERY'
+          }
+        }
+
+        const payload: TokenRequestPayload = {
+          auth_code: authCode,
+          code_verifier: verifier
+        }
+        const path = `${TOKEN_API_PATH}?grant_type=pkce`
+        const response = await auth(path, payload, { onResponse })
+        if (codeVerifier === undefined) {
+          await verifierStorage.remove(verifierKey)
+        }
+        return captureSession(event, response)
+      })
     },
 
     /** Sends a magic link for passwordless sign-in. */
-    async sendMagicLink(email: string): Promise<unknown> {
-      const payload: MagicLinkPayload = { email }
-      return publicRequest('POST', MAGIC_LINK_API_PATH, payload)
+    sendMagicLink<Throw extends boolean = ThrowOnError>(
+      email: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<unknown, Throw, AuthError>> {
+      return respond(options.throwOnError, async (onResponse) => {
+        const payload: MagicLinkPayload = { email }
+        if (flowType === 'pkce') {
+          Object.assign(payload, await createCodeChallenge())
+        }
+        return publicRequest('POST', MAGIC_LINK_API_PATH, payload, undefined, {
+          onResponse
+        })
+      })
     },
 
     /** Sends a password recovery email. */
-    async sendPasswordRecovery(email: string): Promise<unknown> {
-      const payload: MagicLinkPayload = { email }
-      return publicRequest('POST', RECOVER_API_PATH, payload)
+    sendPasswordRecovery<Throw extends boolean = ThrowOnError>(
+      email: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<unknown, Throw, AuthError>> {
+      return respond(options.throwOnError, async (onResponse) => {
+        const payload: MagicLinkPayload = { email }
+        if (flowType === 'pkce') {
+          Object.assign(payload, await createCodeChallenge(true))
+        }
+        return publicRequest('POST', RECOVER_API_PATH, payload, undefined, {
+          onResponse
+        })
+      })
+    },
+
+    /**
+     * Sends a one-time password to an email address or phone number.
+     * Emails carry a magic link as well as the code; phone codes go out
+     * over SMS or WhatsApp.
+     */
+    signInWithOtp<Throw extends boolean = ThrowOnError>(
+      credentials: OtpCredentials,
+      options: SignInWithOtpOptions & ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<OtpResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, async (onResponse) => {
+        const payload: OtpPayload = {
+          ...credentials,
+          create_user: options.shouldCreateUser ?? true,
+          data: options.data ?? {},
+          gotrue_meta_security: captchaMeta(options.captchaToken)
+        }
+        let queryParams: QueryParams | undefined
+        if ('phone' in credentials) {
+          payload.channel = options.channel ?? 'sms'
+        } else {
+          queryParams = redirectParams(options.emailRedirectTo)
+          if (flowType === 'pkce') {
+            Object.assign(payload, await createCodeChallenge())
+          }
+        }
+        return (await publicRequest(
+          'POST',
+          OTP_API_PATH,
+          payload,
+          queryParams,
+          { onResponse }
+        )) as OtpResponse
+      })
+    },
+
+    /**
+     * Verifies an email or phone OTP, or the token hash from an email link,
+     * and signs the user in.
+     */
+    verifyOtp<Throw extends boolean = ThrowOnError>(
+      params: VerifyOtpParams,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthSessionResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        verifyOtp(params, { onResponse })
+      )
     },
 
-    /** Verifies an OTP code. */
-    async verifyOTP(
+    /**
+     * Verifies an email OTP code.
+     * @deprecated Use `verifyOtp({ email, token, type })`.
+     */
+    verifyOTP<Throw extends boolean = ThrowOnError>(
       email: string,
       tokenValue: string,
-      otpType: string
-    ): Promise<unknown> {
-      const payload: VerifyOTPPayload = {
-        email,
-        token: tokenValue,
-        type: otpType
-      }
-      return publicRequest('POST', VERIFY_API_PATH, payload)
+      otpType: EmailOtpType,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthSessionResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        verifyOtp({ email, token: tokenValue, type: otpType }, { onResponse })
+      )
+    },
+
+    /** Resends a signup, email change or phone OTP that may have expired. */
+    resend<Throw extends boolean = ThrowOnError>(
+      params: ResendParams,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<OtpResponse, Throw, AuthError>> {
+      return respond(options.throwOnError, async (onResponse) => {
+        const captcha = captchaMeta(params.options?.captchaToken)
+        const response =
+          'email' in params
+            ? await publicRequest(
+                'POST',
+                RESEND_API_PATH,
+                {
+                  type: params.type,
+                  email: params.email,
+                  gotrue_meta_security: captcha
+                },
+                redirectParams(params.options?.emailRedirectTo),
+                { onResponse }
+              )
+            : await publicRequest(
+                'POST',
+                RESEND_API_PATH,
+                {
+                  type: params.type,
+                  phone: params.phone,
+                  gotrue_meta_security: captcha
+                },
+                undefined,
+                { onResponse }
+              )
+        return response as OtpResponse
+      })
     },
 
-    /** Builds an OAuth authorize URL for a provider. */
+    /** Builds an OAuth authorize URL for a provider (implicit flow). */
     getOAuthSignInUrl(
       provider: OAuthProvider,
       options: OAuthSignInOptions = {}
     ): OAuthSignInResponse {
-      const url = buildUrl(
-        `${SIGNUP_API_PATH.replace('/signup', '/authorize')}`,
-        {
-          provider,
-          redirect_to: options.redirectTo,
-          scopes: options.scopes,
-          ...options.queryParams
-        }
-      )
+      const url = buildUrl(AUTHORIZE_API_PATH, {
+        provider,
+        redirect_to: options.redirectTo,
+        scopes: options.scopes,
+        ...options.queryParams
+      })
+
+      return {
+        provider,
+        url
+      }
+    },
+
+    /**
+     * Builds an OAuth authorize URL for a provider. With the `pkce` flow the
+     * URL carries an S256 challenge and the verifier is stored for
+     * `exchangeCodeForSession`.
+     */
+    async signInWithOAuth(
+      provider: OAuthProvider,
+      options: OAuthSignInOptions = {}
+    ): Promise<OAuthSignInResponse> {
+      const challenge =
+        flowType === 'pkce' ? await createCodeChallenge() : undefined
+      const url = buildUrl(AUTHORIZE_API_PATH, {
+        provider,
+        redirect_to: options.redirectTo,
+        scopes: options.scopes,
+        ...challenge,
+        ...options.queryParams
+      })
 
       return {
         provider,
@@ -335,90 +1524,182 @@ export function createSupabaseClient(config: ClientConfig) {
 
     // User methods
     /** Gets the current authenticated user. */
-    async getUser(): Promise<unknown> {
-      return request('GET', USER_API_PATH)
+    getUser<Throw extends boolean = ThrowOnError>(
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<unknown, Throw, AuthError>> {
+      return respond(options.throwOnError, (onResponse) =>
+        request('GET', USER_API_PATH, undefined, undefined, { onResponse })
+      )
+    },
+
+    /**
+     * Verifies an access token (the current one by default) and returns its
+     * claims and header.
+     *
+     * Asymmetric tokens are verified locally against the project's JWKS,
+     * which is cached between calls. HS256 tokens are verified with
+     * `jwtSecret` when given, and otherwise by the Auth server.
+     *
+     * @throws SupabaseError when there is no token or it fails verification.
+     */
+    async getClaims(
+      jwt?: string,
+      options: GetClaimsOptions = {}
+    ): Promise<Pick<DecodedJwt, 'header' | 'payload'>> {
+      let accessToken = jwt
+      if (accessToken === undefined) {
+        await initialized
+        if (autoRefreshToken) {
+          await sessions.getFreshSession()
+        }
+        accessToken = token
+      }
+      if (!accessToken) {
+        throw new SupabaseError(ERROR_MESSAGES.NO_SESSION)
+      }
+
+      const decoded = decodeJwt(accessToken)
+      // No JWKS fetch for tokens it could not verify anyway
+      if (!isSupportedJwtAlgorithm(decoded.header.alg)) {
+        throw new SupabaseError(ERROR_MESSAGES.UNSUPPORTED_JWT_ALGORITHM)
+      }
+      let verified = decoded
+      if (decoded.header.alg !== 'HS256') {
+        verified = await verifyJwt(accessToken, {
+          jwks: await getJwks(decoded.header.kid)
+        })
+      } else if (options.jwtSecret) {
+        verified = await verifyJwt(accessToken, { secret: options.jwtSecret })
+      } else {
+        // Without the secret only the Auth server can check the signature
+        const url = buildUrl(USER_API_PATH)
+        const response = await send('GET', url, undefined, accessToken, {})
+        if (!response.ok) {
+          const text = await response.text()
+          throw createRequestError('Request failed', response, text, url)
+        }
+      }
+      return { header: verified.header, payload: verified.payload }
     },
 
     /** Updates the current user's information. */
-    async updateUser(payload: Record<string, unknown>): Promise<unknown> {
-      return request('PUT', USER_API_PATH, payload)
+    updateUser<Throw extends boolean = ThrowOnError>(
+      payload: Record<string, unknown>,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<unknown, Throw, AuthError>> {
+      return respond(options.throwOnError, async (onResponse) => {
+        const user = await request('PUT', USER_API_PATH, payload, undefined, {
+          onResponse
+        })
+        const session = sessions.getSession()
+        events.emit(
+          'USER_UPDATED',
+          session
+            ? sessions.setSession({ ...session, user: user as AuthUser })
+            : null
+        )
+        return user
+      })
     },
 
     /** Signs out the current user. */
-    async signOut(
-      scope: 'global' | 'local' | 'others' = 'global'
-    ): Promise<unknown> {
-      return request('POST', `${LOGOUT_API_PATH}?scope=${scope}`)
+    signOut<Throw extends boolean = ThrowOnError>(
+      scope: 'global' | 'local' | 'others' = 'global',
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<unknown, Throw, AuthError>> {
+      return respond(options.throwOnError, async (onResponse) => {
+        try {
+          return await request(
+            'POST',
+            `${LOGOUT_API_PATH}?scope=${scope}`,
+            undefined,
+            undefined,
+            { onResponse }
+          )
+        } finally {
+          // 'others' revokes other devices and keeps this session
+          if (scope !== 'others') {
+            if (autoRefreshToken) {
+              sessions.clearSession()
+            }
+            events.emit('SIGNED_OUT', null)
+          }
+        }
+      })
     },
 
-    /** Invites a new user by email. */
-    async inviteUser(email: string): Promise<unknown> {
+    /**
+     * Invites a new user by email.
+     *
+     * @deprecated Use `auth.admin.inviteUserByEmail`, which also accepts
+     * user metadata and a redirect URL.
+     */
+    inviteUser<Throw extends boolean = ThrowOnError>(
+      email: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<unknown, Throw, AuthError>> {
       const payload = { email }
-      return publicRequest('POST', INVITE_API_PATH, payload)
+      return respond(options.throwOnError, (onResponse) =>
+        publicRequest('POST', INVITE_API_PATH, payload, undefined, {
+          onResponse
+        })
+      )
     },
 
     /** Resets a user's password using a reset token. */
-    async resetPassword(
+    resetPassword<Throw extends boolean = ThrowOnError>(
       tokenValue: string,
-      newPassword: string
-    ): Promise<unknown> {
+      newPassword: string,
+      options: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<unknown, Throw, AuthError>> {
       const payload = { token: tokenValue, password: newPassword }
       const path = `${RESET_API_PATH}?grant_type=reset_password`
-      return request('POST', path, payload)
+      return respond(options.throwOnError, (onResponse) =>
+        request('POST', path, payload, undefined, { onResponse })
+      )
     },
 
-    // REST methods
-    /** Performs a GET request to fetch data. */
-    async get(endpoint: string, queryParams?: QueryParams): Promise<unknown> {
-      if (queryParams) {
-        return request('GET', endpoint, undefined, queryParams)
-      }
-      return request('GET', endpoint)
-    },
+    /** Buckets and objects under `/storage/v1`. */
+    storage: createStorageClient(authorizedRequest, baseUrl),
 
-    /** Performs a POST request to create data. */
-    async post(endpoint: string, data: unknown): Promise<unknown> {
-      return request('POST', endpoint, data)
-    },
+    /** Edge Functions under `/functions/v1`. */
+    functions: createFunctionsClient(authorizedFetch),
 
-    /** Performs a PUT request to replace a record. */
-    async put(
-      endpoint: string,
-      primaryKeyName: string,
-      primaryKeyValue: string,
-      data: unknown
-    ): Promise<unknown> {
-      const queryParams = { [primaryKeyName]: primaryKeyValue }
-      return request('PUT', endpoint, data, queryParams)
-    },
+    /** The realtime socket: `connect`, `disconnect`, `setAuth` and more. */
+    realtime,
 
-    /** Performs a PATCH request to update records. */
-    async patch(
-      endpoint: string,
-      queryParams: QueryParams,
-      data: unknown
-    ): Promise<unknown> {
-      return request('PATCH', endpoint, data, queryParams)
-    },
+    /**
+     * Creates a realtime channel. Add listeners with `on()`, then call
+     * `subscribe()` to join it.
+     */
+    channel: (
+      name: string,
+      options?: RealtimeChannelOptions
+    ): RealtimeChannel => realtime.channel(name, options),
 
-    /** Performs a DELETE request to remove a record. */
-    async del(
-      endpoint: string,
-      primaryKeyName: string,
-      primaryKeyValue: string
-    ): Promise<unknown> {
-      const queryParams = { [primaryKeyName]: primaryKeyValue }
-      return request('DELETE', endpoint, queryParams)
-    },
+    /** Leaves a channel; the socket closes after the last one. */
+    removeChannel: (channel: RealtimeChannel): Promise<RealtimePushStatus> =>
+      realtime.removeChannel(channel),
 
-    /** Alias for the REST delete method. */
-    async delete(
-      endpoint: string,
-      primaryKeyName: string,
-      primaryKeyValue: string
-    ): Promise<unknown> {
-      const queryParams = { [primaryKeyName]: primaryKeyValue }
-      return request('DELETE', endpoint, queryParams)
+    /** Leaves every channel and closes the socket. */
+    removeAllChannels: (): Promise<RealtimePushStatus[]> =>
+      realtime.removeAllChannels(),
+
+    // REST methods
+    ...createRestMethods<SchemaName>(config.db?.schema),
+
+    /**
+     * REST methods against another schema, which has to be exposed in the
+     * project's API settings. Tables, views and functions are typed from
+     * that schema of the `Database` type.
+     *
+     * @example
+     * ```typescript
+     * const events = await client.schema('analytics').from('events').select()
+     * ```
+     */
+    schema<Name extends Extract<keyof Database, string>>(name: Name) {
+      return createRestMethods<Name>(name)
     },
 
     // Constants for compatibility
@@ -0,0 +1,164 @@
+import type {
+  DoFetchFn,
+  FunctionBody,
+  FunctionInvokeOptions
+} from '../types/index.js'
+import { FunctionsHttpError, FunctionsRelayError } from '../types/index.js'
+import { FUNCTIONS_API_PATH } from '../utils/constants/index.js'
+import { parseJson } from '../utils/fetch/index.js'
+
+function mediaType(response: Response): string {
+  return (response.headers.get('Content-Type') ?? '')
+    .split(';')[0]
+    .trim()
+    .toLowerCase()
+}
+
+function isJson(type: string): boolean {
+  return type === 'application/json' || type.endsWith('+json')
+}
+
+// Picks the body encoding and the Content-Type that goes with it
+function serializeBody(body: FunctionBody | undefined): {
+  payload?: BodyInit
+  contentType?: string
+} {
+  if (body === undefined) {
+    return {}
+  }
+  if (typeof body === 'string') {
+    return { payload: body, contentType: 'text/plain' }
+  }
+  if (body instanceof Blob) {
+    return {
+      payload: body,
+      contentType: body.type || 'application/octet-stream'
+    }
+  }
+  if (
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    body instanceof ReadableStream
+  ) {
+    return {
+      payload: body as BodyInit,
+      contentType: 'application/octet-stream'
+    }
+  }
+  if (body instanceof FormData) {
+    // fetch adds the multipart boundary
+    return { payload: body }
+  }
+  if (body instanceof URLSearchParams) {
+    return {
+      payload: body,
+      contentType: 'application/x-www-form-urlencoded'
+    }
+  }
+  return { payload: JSON.stringify(body), contentType: 'application/json' }
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text()
+  if (text && isJson(mediaType(response))) {
+    try {
+      return JSON.parse(text) as unknown
+    } catch {
+      return text
+    }
+  }
+  return text || null
+}
+
+async function parseResponse(
+  response: Response,
+  stream: boolean
+): Promise<unknown> {
+  const type = mediaType(response)
+  if (stream || type === 'text/event-stream') {
+    return response.body
+  }
+  if (response.status === 204) {
+    return null
+  }
+  if (isJson(type)) {
+    const text = await response.text()
+    return text ? parseJson<unknown>(text, response.status) : null
+  }
+  if (type === 'multipart/form-data') {
+    return response.formData()
+  }
+  if (
+    type === 'application/octet-stream' ||
+    type === 'application/pdf' ||
+    /^(image|audio|video)\//.test(type)
+  ) {
+    return response.blob()
+  }
+  return response.text()
+}
+
+/**
+ * Creates the `client.functions` namespace for Edge Functions under
+ * `/functions/v1`.
+ *
+ * `fetchRequest` must resolve non-2xx responses instead of throwing, so
+ * relay failures (`x-relay-error: true`) can be told apart from errors the
+ * function returned: they throw `FunctionsRelayError` and
+ * `FunctionsHttpError` respectively.
+ */
+export function createFunctionsClient(fetchRequest: DoFetchFn) {
+  return {
+    /**
+     * Invokes a function and resolves to its response, parsed by content
+     * type: JSON, text, `Blob` for binary types, `FormData` for multipart,
+     * or a `ReadableStream` for event streams and `stream: true`.
+     */
+    async invoke<T = unknown>(
+      name: string,
+      options: FunctionInvokeOptions = {}
+    ): Promise<T> {
+      const {
+        body,
+        method = 'POST',
+        region,
+        stream = false,
+        headers,
+        ...requestOptions
+      } = options
+      const { payload, contentType } = serializeBody(body)
+
+      let endpoint = `${FUNCTIONS_API_PATH}/${name.replace(/^\/+/, '')}`
+      const regionHeaders: Record<string, string> = {}
+      if (region && region !== 'any') {
+        regionHeaders['x-region'] = region
+        endpoint += `${endpoint.includes('?') ? '&' : '?'}forceFunctionRegion=${region}`
+      }
+
+      const response = await fetchRequest(method, endpoint, payload, {
+        ...requestOptions,
+        headers: {
+          ...(contentType && { 'Content-Type': contentType }),
+          ...regionHeaders,
+          ...headers
+        }
+      })
+
+      if (response.headers.get('x-relay-error') === 'true') {
+        throw new FunctionsRelayError(
+          name,
+          response.status,
+          await readBody(response)
+        )
+      }
+      if (!response.ok) {
+        throw new FunctionsHttpError(
+          name,
+          response.status,
+          await readBody(response)
+        )
+      }
+      return (await parseResponse(response, stream)) as T
+    }
+  }
+}
@@ -6,12 +6,19 @@
  * handling authenticated requests and Row Level Security (RLS) integrations.
  */
 
-import type { SupabaseClient } from './types/index.js'
+import type {
+  DefaultSchemaName,
+  GenericDatabase,
+  SupabaseClient
+} from './types/index.js'
 import { createSupabaseClient } from './client/index.js'
 
 export * from './types/index.js'
 export * from './utils/constants/index.js'
 export * from './utils/keys/index.js'
+export * from './utils/jwt/index.js'
+export * from './utils/pkce/index.js'
+export * from './utils/storage/index.js'
 export { createSupabaseClient }
 export type { SupabaseClient } from './types/index.js'
 
@@ -26,6 +33,8 @@ export type { SupabaseClient } from './types/index.js'
  * @param apiKey - Your Supabase API key. Accepts `sb_publishable_...` (recommended for
  *   browsers), `sb_secret_...` (server only), or a legacy anon/service_role key.
  * @param token - Optional JWT token for authenticated requests
+ * @typeParam Database - Optional generated database type used to infer rows,
+ *   inserts and updates from table names
  * @returns A SupabaseClient instance with methods for auth, user management, and REST operations
  *
  * @example
@@ -83,10 +92,13 @@ export type { SupabaseClient } from './types/index.js'
  * }
  * ```
  */
-export function createClient(
+export function createClient<
+  Database = GenericDatabase,
+  SchemaName extends keyof Database = DefaultSchemaName<Database>
+>(
   baseUrl: string,
   apiKey: string,
   token?: string
-): SupabaseClient {
-  return createSupabaseClient({ baseUrl, apiKey, token })
+): SupabaseClient<Database, SchemaName> {
+  return createSupabaseClient<Database, SchemaName>({ baseUrl, apiKey, token })
 }
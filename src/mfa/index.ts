@@ -0,0 +1,234 @@
+import type {
+  AuthenticatorAssurance,
+  AuthError,
+  AuthTokenResponse,
+  AuthUser,
+  CallResult,
+  DoFetchFn,
+  JwtPayload,
+  MfaChallengeParams,
+  MfaChallengeResponse,
+  MfaEnrollParams,
+  MfaEnrollResponse,
+  MfaFactorList,
+  MfaVerifyParams,
+  RespondFn,
+  ThrowOnErrorOption
+} from '../types/index.js'
+import { FACTORS_API_PATH, USER_API_PATH } from '../utils/constants/index.js'
+import { decodeJwt } from '../utils/jwt/index.js'
+import { readJson } from '../utils/fetch/index.js'
+
+export interface MfaClientOptions {
+  /** Returns the current access token, if any. */
+  getAccessToken: () => string | undefined
+  /** Returns the user stored with the session, if any. */
+  getSessionUser: () => AuthUser | undefined
+  /** Stores the upgraded session and emits `MFA_CHALLENGE_VERIFIED`. */
+  onVerified: (response: AuthTokenResponse) => AuthTokenResponse
+  /** Runs each call in the client's `throwOnError` mode. */
+  respond: RespondFn
+}
+
+type OnResponse = ((response: Response) => void) | undefined
+
+// Reads the claims of a JWT without verifying its signature
+function decodeClaims(jwt: string): JwtPayload | null {
+  try {
+    return decodeJwt(jwt).payload
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Creates the `client.auth.mfa` namespace for enrolling, challenging and
+ * verifying second factors under `/auth/v1/factors`.
+ *
+ * Requests run as the signed-in user. A successful `verify` returns an
+ * `aal2` session, which is stored (in session mode) and emitted as
+ * `MFA_CHALLENGE_VERIFIED`. Like the client's auth methods, each call
+ * accepts `throwOnError`.
+ */
+export function createMfaClient<ThrowOnError extends boolean>(
+  fetchRequest: DoFetchFn,
+  options: MfaClientOptions
+) {
+  const { respond } = options
+
+  async function json<T>(
+    endpoint: string,
+    body: unknown,
+    onResponse: OnResponse
+  ): Promise<T> {
+    const response = await fetchRequest(
+      body === undefined ? 'GET' : 'POST',
+      endpoint,
+      body === undefined ? undefined : JSON.stringify(body),
+      { onResponse }
+    )
+    return readJson<T>(response)
+  }
+
+  const factorPath = (id: string) =>
+    `${FACTORS_API_PATH}/${encodeURIComponent(id)}`
+
+  async function currentUser(onResponse: OnResponse): Promise<AuthUser> {
+    return (
+      options.getSessionUser() ??
+      json<AuthUser>(USER_API_PATH, undefined, onResponse)
+    )
+  }
+
+  async function challenge(
+    params: MfaChallengeParams,
+    onResponse: OnResponse
+  ): Promise<MfaChallengeResponse> {
+    return json(
+      `${factorPath(params.factorId)}/challenge`,
+      params.channel ? { channel: params.channel } : {},
+      onResponse
+    )
+  }
+
+  async function verify(
+    params: MfaVerifyParams,
+    onResponse: OnResponse
+  ): Promise<AuthTokenResponse> {
+    const response = await json<AuthTokenResponse>(
+      `${factorPath(params.factorId)}/verify`,
+      { challenge_id: params.challengeId, code: params.code },
+      onResponse
+    )
+    return options.onVerified(response)
+  }
+
+  return {
+    /**
+     * Starts enrolling a TOTP or phone factor. The factor stays unverified
+     * until a challenge for it is verified.
+     */
+    enroll<Throw extends boolean = ThrowOnError>(
+      params: MfaEnrollParams,
+      callOptions: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<MfaEnrollResponse, Throw, AuthError>> {
+      return respond(callOptions.throwOnError, (onResponse) =>
+        json<MfaEnrollResponse>(
+          FACTORS_API_PATH,
+          params.factorType === 'totp'
+            ? {
+                factor_type: 'totp',
+                friendly_name: params.friendlyName,
+                issuer: params.issuer
+              }
+            : {
+                factor_type: 'phone',
+                friendly_name: params.friendlyName,
+                phone: params.phone
+              },
+          onResponse
+        )
+      )
+    },
+
+    /** Creates a challenge; phone factors get a code sent to them. */
+    challenge<Throw extends boolean = ThrowOnError>(
+      params: MfaChallengeParams,
+      callOptions: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<MfaChallengeResponse, Throw, AuthError>> {
+      return respond(callOptions.throwOnError, (onResponse) =>
+        challenge(params, onResponse)
+      )
+    },
+
+    /** Verifies a challenge code and upgrades the session to `aal2`. */
+    verify<Throw extends boolean = ThrowOnError>(
+      params: MfaVerifyParams,
+      callOptions: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthTokenResponse, Throw, AuthError>> {
+      return respond(callOptions.throwOnError, (onResponse) =>
+        verify(params, onResponse)
+      )
+    },
+
+    /** Creates a challenge and verifies it in one step (TOTP factors). */
+    challengeAndVerify<Throw extends boolean = ThrowOnError>(
+      params: { factorId: string; code: string },
+      callOptions: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthTokenResponse, Throw, AuthError>> {
+      return respond(callOptions.throwOnError, async (onResponse) => {
+        const { id } = await challenge(
+          { factorId: params.factorId },
+          onResponse
+        )
+        return verify({ ...params, challengeId: id }, onResponse)
+      })
+    },
+
+    /** Removes a factor. Verified factors need an `aal2` session. */
+    unenroll<Throw extends boolean = ThrowOnError>(
+      factorId: string,
+      callOptions: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<{ id: string }, Throw, AuthError>> {
+      return respond(callOptions.throwOnError, async (onResponse) => {
+        const response = await fetchRequest(
+          'DELETE',
+          factorPath(factorId),
+          undefined,
+          { onResponse }
+        )
+        return readJson<{ id: string }>(response)
+      })
+    },
+
+    /**
+     * Lists the user's verified factors. Uses the stored session's user
+     * when there is one, and `GET /user` otherwise.
+     */
+    listFactors<Throw extends boolean = ThrowOnError>(
+      callOptions: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<MfaFactorList, Throw, AuthError>> {
+      return respond(callOptions.throwOnError, async (onResponse) => {
+        const all = ((await currentUser(onResponse)).factors ?? []).filter(
+          (factor) => factor.status === 'verified'
+        )
+        return {
+          all,
+          totp: all.filter((factor) => factor.factor_type === 'totp'),
+          phone: all.filter((factor) => factor.factor_type === 'phone')
+        }
+      })
+    },
+
+    /**
+     * Reads the assurance level from the access token. `nextLevel` is
+     * `aal2` when the user has a verified factor, so a lower
+     * `currentLevel` means a challenge should be verified.
+     */
+    getAuthenticatorAssuranceLevel<Throw extends boolean = ThrowOnError>(
+      callOptions: ThrowOnErrorOption<Throw> = {}
+    ): Promise<CallResult<AuthenticatorAssurance, Throw, AuthError>> {
+      return respond(callOptions.throwOnError, async (onResponse) => {
+        const accessToken = options.getAccessToken()
+        const claims = accessToken ? decodeClaims(accessToken) : null
+        if (!claims) {
+          return {
+            currentLevel: null,
+            nextLevel: null,
+            currentAuthenticationMethods: []
+          }
+        }
+
+        const currentLevel = claims.aal ?? null
+        const verified = ((await currentUser(onResponse)).factors ?? []).some(
+          (factor) => factor.status === 'verified'
+        )
+        return {
+          currentLevel,
+          nextLevel: verified ? 'aal2' : currentLevel,
+          currentAuthenticationMethods: claims.amr ?? []
+        }
+      })
+    }
+  }
+}
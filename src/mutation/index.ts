@@ -0,0 +1,117 @@
+import type {
+  DoRequestWithResponseFn,
+  MutationResult,
+  QueryParams,
+  TrackedRequestOptions,
+  UpsertOptions
+} from '../types/index.js'
+import { SupabaseError } from '../types/index.js'
+import { ERROR_MESSAGES } from '../utils/constants/index.js'
+import { parseContentRange } from '../pagination/index.js'
+
+const DEFAULT_CHUNK_SIZE = 1000
+
+// Every key across the rows, so PostgREST accepts rows with differing keys
+function collectColumns(rows: readonly object[]): string[] {
+  const columns = new Set<string>()
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      columns.add(key)
+    }
+  }
+  return [...columns]
+}
+
+/**
+ * Inserts or upserts one row or an array of rows.
+ *
+ * Arrays are sent with a `columns` list and split into chunks of
+ * `chunkSize` rows, posted one after another; the returned rows, counts and
+ * `Location` headers are combined. When a chunk fails the error is thrown
+ * and the chunks before it stay written.
+ */
+export async function insertRows<Row>(
+  request: DoRequestWithResponseFn,
+  endpoint: string,
+  values: unknown,
+  options: UpsertOptions<Row> & TrackedRequestOptions = {},
+  upsert = false
+): Promise<MutationResult<Row[] | null>> {
+  const {
+    returning = 'representation',
+    count,
+    select,
+    defaultToNull = true,
+    columns,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    onConflict,
+    ignoreDuplicates,
+    ...requestOptions
+  } = options
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new SupabaseError(ERROR_MESSAGES.INVALID_CHUNK_SIZE)
+  }
+
+  const preferences = [`return=${returning}`]
+  if (count) {
+    preferences.push(`count=${count}`)
+  }
+  if (upsert) {
+    preferences.push(
+      `resolution=${ignoreDuplicates ? 'ignore' : 'merge'}-duplicates`
+    )
+  }
+  if (!defaultToNull) {
+    preferences.push('missing=default')
+  }
+  const headers = { ...requestOptions.headers, Prefer: preferences.join(',') }
+
+  const params: QueryParams = {}
+  if (select && returning === 'representation') {
+    params.select = select
+  }
+  if (upsert && onConflict) {
+    params.on_conflict = [onConflict].flat().join(',')
+  }
+
+  const result: MutationResult<Row[] | null> = {
+    data: returning === 'representation' ? [] : null,
+    count: count ? 0 : null,
+    locations: []
+  }
+
+  const chunks: unknown[] = []
+  if (Array.isArray(values)) {
+    const rows = values as readonly object[]
+    params.columns = (columns ?? collectColumns(rows))
+      .map((column) => `"${column}"`)
+      .join(',')
+    for (let start = 0; start < rows.length; start += chunkSize) {
+      chunks.push(rows.slice(start, start + chunkSize))
+    }
+  } else {
+    chunks.push(values)
+  }
+
+  for (const chunk of chunks) {
+    const response = await request('POST', endpoint, chunk, params, {
+      ...requestOptions,
+      headers
+    })
+    if (result.data) {
+      result.data.push(...(response.data as Row[]))
+    }
+    if (result.count !== null) {
+      const written = parseContentRange(
+        response.headers.get('Content-Range')
+      ).count
+      result.count = written === null ? null : result.count + written
+    }
+    const location = response.headers.get('Location')
+    if (location) {
+      result.locations.push(location)
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,163 @@
+import type {
+  DoRequestWithResponseFn,
+  PageOptions,
+  PageRange,
+  PageResult,
+  PaginateOptions,
+  QueryParams,
+  TrackedRequestOptions
+} from '../types/index.js'
+import { SupabaseError } from '../types/index.js'
+import { ERROR_MESSAGES } from '../utils/constants/index.js'
+
+const DEFAULT_PAGE_SIZE = 1000
+
+/**
+ * Parses a `Content-Range` header such as `0-24/100`, `0-24/*` or `*\/0`.
+ */
+export function parseContentRange(value: string | null): {
+  range: PageRange | null
+  count: number | null
+} {
+  const match = value?.match(/^(?:(\d+)-(\d+)|\*)\/(\d+|\*)$/)
+  if (!match) {
+    return { range: null, count: null }
+  }
+
+  const [, from, to, total] = match
+  return {
+    range: from === undefined ? null : { from: Number(from), to: Number(to) },
+    count: total === '*' ? null : Number(total)
+  }
+}
+
+/**
+ * Fetches rows `from` to `to` (inclusive) with a `Range` header.
+ *
+ * PostgREST answers 206 for a partial range and 416 when `from` is past the
+ * last row; the latter resolves to an empty page rather than an error.
+ */
+export async function fetchPage<Row>(
+  request: DoRequestWithResponseFn,
+  endpoint: string,
+  from: number,
+  to: number,
+  options: PageOptions<Row> & TrackedRequestOptions = {}
+): Promise<PageResult<Row>> {
+  const { count, query, ...requestOptions } = options
+  const headers: Record<string, string> = {
+    ...requestOptions.headers,
+    'Range-Unit': 'items',
+    Range: `${from}-${to}`
+  }
+  if (count) {
+    headers.Prefer = `count=${count}`
+  }
+
+  try {
+    const response = await request(
+      'GET',
+      endpoint,
+      undefined,
+      query as QueryParams | undefined,
+      { ...requestOptions, headers }
+    )
+    return {
+      data: response.data as Row[],
+      ...parseContentRange(response.headers.get('Content-Range'))
+    }
+  } catch (error) {
+    if (error instanceof SupabaseError && error.statusCode === 416) {
+      return { data: [], count: null, range: null }
+    }
+    throw error
+  }
+}
+
+/**
+ * Yields consecutive non-empty pages until the table is exhausted.
+ *
+ * By default pages are addressed by range. With `cursor`, each page filters
+ * past the last row's cursor value instead, so rows inserted or deleted
+ * mid-walk do not shift later pages. Only the first keyset page asks for a
+ * count, since later pages count only the remaining rows.
+ *
+ * A short page does not end the walk: PostgREST's `db-max-rows` can cap a
+ * page below `pageSize`. The walk ends on an empty page, a 416, or once
+ * `count` rows have been seen.
+ *
+ * @throws {SupabaseError} When a keyset page's last row lacks the cursor
+ * column or holds null in it, e.g. because `select` left the column out
+ */
+export async function* paginate<Row>(
+  request: DoRequestWithResponseFn,
+  endpoint: string,
+  options: PaginateOptions<Row> = {}
+): AsyncGenerator<PageResult<Row>, void, undefined> {
+  const { pageSize = DEFAULT_PAGE_SIZE, cursor, ...pageOptions } = options
+
+  if (!cursor) {
+    for (let from = 0; ;) {
+      const page = await fetchPage(
+        request,
+        endpoint,
+        from,
+        from + pageSize - 1,
+        pageOptions
+      )
+      if (page.data.length === 0) {
+        return
+      }
+      yield page
+      // Continue after the rows actually returned, not the rows asked for
+      from = page.range ? page.range.to + 1 : from + page.data.length
+      if (page.count !== null && from >= page.count) {
+        return
+      }
+    }
+  }
+
+  const { column, ascending = true } =
+    typeof cursor === 'string' ? { column: cursor } : cursor
+  const order = `${column}.${ascending ? 'asc' : 'desc'}`
+  let last: unknown
+  let total: number | null = null
+  let seen = 0
+  for (let first = true; ; first = false) {
+    // Appended to the path so a caller filter on the same column is kept
+    const keyset = first
+      ? ''
+      : `?${new URLSearchParams({
+          [column]: `${ascending ? 'gt' : 'lt'}.${String(last)}`
+        }).toString()}`
+    const page = await fetchPage(
+      request,
+      `${endpoint}${keyset}`,
+      0,
+      pageSize - 1,
+      {
+        ...pageOptions,
+        count: first ? pageOptions.count : undefined,
+        query: { ...pageOptions.query, order } as PageOptions<Row>['query']
+      }
+    )
+    if (page.data.length === 0) {
+      return
+    }
+    yield page
+    if (first) {
+      total = page.count
+    }
+    seen += page.data.length
+    if (total !== null && seen >= total) {
+      return
+    }
+    last = (page.data[page.data.length - 1] as Record<string, unknown>)[column]
+    // Filtering on `gt.undefined` or `gt.null` would restart or end the walk
+    if (last === undefined || last === null) {
+      throw new SupabaseError(
+        `${ERROR_MESSAGES.MISSING_CURSOR_VALUE}: ${column}`
+      )
+    }
+  }
+}
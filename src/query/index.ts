@@ -0,0 +1,590 @@
+import type {
+  CallResult,
+  DoRequestWithResponseFn,
+  ExplainFormat,
+  ExplainOptions,
+  ExplainResult,
+  FilterBuilder,
+  FilterExpression,
+  FilterOperator,
+  ForeignTableOptions,
+  GeoJsonFeatureCollection,
+  HttpMethod,
+  QueryBuilder,
+  QueryParamValue,
+  RequestResult,
+  RestError,
+  RpcOptions,
+  SingleResult
+} from '../types/index.js'
+import { PostgrestError, SupabaseError } from '../types/index.js'
+import { parseContentRange } from '../pagination/index.js'
+import { ERROR_MESSAGES, REST_API_PATH } from '../utils/constants/index.js'
+import { settle } from '../utils/result/index.js'
+
+/**
+ * Mutable state shared by a builder and the builders derived from it.
+ */
+interface QueryState {
+  method: HttpMethod
+  endpoint: string
+  params: URLSearchParams
+  headers: Record<string, string>
+  body?: unknown
+  /** Whether the response body is returned (reads, or writes with `select()`). */
+  returnsData: boolean
+  /** Whether the result is wrapped as `{ data, count }`. */
+  withCount?: boolean
+  /** Whether `maybeSingle()` resolves to `null` when no row matched. */
+  maybeSingle?: boolean
+  signal?: AbortSignal
+  timeout?: number
+  /** Whether errors reject, or resolve as `{ data, error }` results. */
+  throwOnError: boolean
+}
+
+const OBJECT_MEDIA_TYPE = 'application/vnd.pgrst.object+json'
+
+// Characters PostgREST treats as syntax inside filter values and lists
+const RESERVED_CHARACTERS = /[,.:(){}"\\\s]/
+
+// PostgREST keywords whose values are not filters; embedded resources
+// prefix them, e.g. `comments.limit`
+const KEYWORDS = new Set([
+  'select',
+  'order',
+  'limit',
+  'offset',
+  'columns',
+  'on_conflict'
+])
+
+// Dates are sent as ISO strings
+function toText(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+/**
+ * Quotes a single value when it contains PostgREST reserved characters.
+ */
+function quoteValue(value: unknown): string {
+  const text = toText(value)
+  if (
+    (typeof value !== 'string' && !(value instanceof Date)) ||
+    !RESERVED_CHARACTERS.test(text)
+  ) {
+    return text
+  }
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+function formatList(values: readonly unknown[]): string {
+  return values.map(quoteValue).join(',')
+}
+
+/**
+ * Serializes a filter value the way PostgREST expects for an operator.
+ */
+function formatFilterValue(operator: FilterOperator, value: unknown): string {
+  if (operator === 'in' && Array.isArray(value)) {
+    return `(${formatList(value)})`
+  }
+
+  if (operator === 'cs' || operator === 'cd' || operator === 'ov') {
+    if (Array.isArray(value)) {
+      return `{${formatList(value)}}`
+    }
+    if (value !== null && typeof value === 'object') {
+      return JSON.stringify(value)
+    }
+  }
+
+  return toText(value)
+}
+
+/**
+ * Sets one `Prefer` preference, keeping any others already present.
+ */
+export function setPreference(
+  headers: Record<string, string>,
+  name: string,
+  value: string
+): void {
+  const others = (headers.Prefer ?? '')
+    .split(',')
+    .filter((preference) => preference && !preference.startsWith(`${name}=`))
+  headers.Prefer = [...others, `${name}=${value}`].join(',')
+}
+
+/**
+ * Serializes a function argument for the query string of a GET or HEAD
+ * RPC call; arrays use the Postgres array literal form.
+ */
+function formatArgument(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `{${formatList(value)}}`
+  }
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+function isFilterExpression(value: object): value is FilterExpression {
+  return 'op' in value && 'value' in value
+}
+
+function isScalar(value: unknown): boolean {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    (value instanceof Date && !Number.isNaN(value.getTime()))
+  )
+}
+
+function unsupported(key: string): SupabaseError {
+  return new SupabaseError(`${ERROR_MESSAGES.INVALID_QUERY_PARAM}: ${key}`)
+}
+
+/**
+ * Serializes a column filter as `<op>.<value>`. Inside `or`/`and` trees
+ * (`nested`) values are quoted, since commas and parentheses are syntax
+ * there.
+ */
+function formatColumnFilter(
+  key: string,
+  value: unknown,
+  nested: boolean
+): string {
+  if (typeof value === 'string') {
+    return value
+  }
+  if (Array.isArray(value)) {
+    if (!value.every(isScalar)) {
+      throw unsupported(key)
+    }
+    return `in.(${formatList(value)})`
+  }
+  if (value === null) {
+    return 'is.null'
+  }
+  if (isScalar(value)) {
+    return `eq.${nested ? quoteValue(toText(value)) : toText(value)}`
+  }
+  if (typeof value === 'object' && isFilterExpression(value)) {
+    const operand = value.value
+    if (
+      !isScalar(operand) &&
+      !Array.isArray(operand) &&
+      (typeof operand !== 'object' || operand instanceof Date)
+    ) {
+      throw unsupported(key)
+    }
+    const formatted = formatFilterValue(value.op, operand)
+    const quoted =
+      nested && isScalar(operand) && operand !== null
+        ? quoteValue(formatted)
+        : formatted
+    return `${value.not ? 'not.' : ''}${value.op}.${quoted}`
+  }
+  throw unsupported(key)
+}
+
+// Serializes the branches of an `or`/`and` expression
+function formatConditions(key: string, conditions: unknown): string {
+  if (!Array.isArray(conditions)) {
+    throw unsupported(key)
+  }
+  const parts: string[] = []
+  for (const condition of conditions as unknown[]) {
+    if (!condition || typeof condition !== 'object') {
+      throw unsupported(key)
+    }
+    for (const [column, value] of Object.entries(condition)) {
+      if (value === undefined) {
+        continue
+      }
+      parts.push(
+        column === 'or' || column === 'and'
+          ? `${column}(${formatConditions(key, value)})`
+          : `${column}.${formatColumnFilter(key, value, true)}`
+      )
+    }
+  }
+  return parts.join(',')
+}
+
+/**
+ * Serializes one `QueryParams` value for the URL, or `undefined` to leave
+ * it out. Strings are sent as they are; numbers, booleans, dates, `null`,
+ * arrays and `{ op, value }` become PostgREST filters, and `or`/`and`
+ * condition lists become logic trees.
+ *
+ * @throws SupabaseError for values that cannot be encoded, rather than
+ *   dropping them.
+ */
+export function formatQueryParam(
+  key: string,
+  value: QueryParamValue
+): string | undefined {
+  if (value === undefined || typeof value === 'string') {
+    return value
+  }
+  const name = key.slice(key.lastIndexOf('.') + 1)
+  if (name === 'or' || name === 'and') {
+    return `(${formatConditions(key, value)})`
+  }
+  if (KEYWORDS.has(name)) {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return String(value)
+    }
+    throw unsupported(key)
+  }
+  return formatColumnFilter(key, value, false)
+}
+
+// PostgREST answers a single-object request that matched nothing with
+// PGRST116 and details like "The result contains 0 rows"
+function isNoRowsError(error: unknown): boolean {
+  return (
+    error instanceof PostgrestError &&
+    error.code === 'PGRST116' &&
+    /\b0 rows\b/.test(error.details ?? '')
+  )
+}
+
+function createFilterBuilder<Row, Result, ThrowOnError extends boolean>(
+  request: DoRequestWithResponseFn,
+  state: QueryState
+): FilterBuilder<Row, Result, ThrowOnError> {
+  function filter(column: string, operator: FilterOperator, value: unknown) {
+    state.params.append(
+      column,
+      `${operator}.${formatFilterValue(operator, value)}`
+    )
+    return builder
+  }
+
+  function pattern(
+    column: string,
+    operator: 'like' | 'ilike',
+    modifier: 'all' | 'any',
+    patterns: readonly string[]
+  ) {
+    state.params.append(
+      column,
+      `${operator}(${modifier}).{${formatList(patterns)}}`
+    )
+    return builder
+  }
+
+  function logic(
+    key: 'or' | 'and',
+    filters: string,
+    options: ForeignTableOptions
+  ) {
+    const name = options.foreignTable ? `${options.foreignTable}.${key}` : key
+    state.params.append(name, `(${filters})`)
+    return builder
+  }
+
+  async function execute(
+    onResponse?: (response: Response) => void
+  ): Promise<Result> {
+    const query = state.params.toString()
+    const endpoint = query ? `${state.endpoint}?${query}` : state.endpoint
+    let response: RequestResult
+    try {
+      response = await request(state.method, endpoint, state.body, undefined, {
+        headers: state.headers,
+        signal: state.signal,
+        timeout: state.timeout,
+        onResponse
+      })
+    } catch (error) {
+      if (state.maybeSingle && isNoRowsError(error)) {
+        // No rows is a success for maybeSingle(), so the result reports 200
+        onResponse?.(new Response(null, { status: 200, statusText: 'OK' }))
+        return null as Result
+      }
+      throw error
+    }
+    const { data, headers } = response
+    const result = state.returnsData ? data : null
+    if (state.withCount) {
+      return {
+        data: result,
+        count: parseContentRange(headers.get('Content-Range')).count
+      } as Result
+    }
+    return result as Result
+  }
+
+  // The same builder, typed for the result a format modifier produces
+  function resolvesTo<Next>() {
+    return builder as unknown as FilterBuilder<Row, Next, ThrowOnError>
+  }
+
+  const builder: FilterBuilder<Row, Result, ThrowOnError> = {
+    eq: (column, value) => filter(column, 'eq', value),
+    neq: (column, value) => filter(column, 'neq', value),
+    gt: (column, value) => filter(column, 'gt', value),
+    gte: (column, value) => filter(column, 'gte', value),
+    lt: (column, value) => filter(column, 'lt', value),
+    lte: (column, value) => filter(column, 'lte', value),
+    like: (column, value) => filter(column, 'like', value),
+    ilike: (column, value) => filter(column, 'ilike', value),
+    likeAllOf: (column, patterns) => pattern(column, 'like', 'all', patterns),
+    likeAnyOf: (column, patterns) => pattern(column, 'like', 'any', patterns),
+    ilikeAllOf: (column, patterns) => pattern(column, 'ilike', 'all', patterns),
+    ilikeAnyOf: (column, patterns) => pattern(column, 'ilike', 'any', patterns),
+    is: (column, value) => filter(column, 'is', value),
+    isDistinct: (column, value) => filter(column, 'isdistinct', value),
+    in: (column, values) => filter(column, 'in', values),
+    contains: (column, value) => filter(column, 'cs', value),
+    containedBy: (column, value) => filter(column, 'cd', value),
+    overlaps: (column, value) => filter(column, 'ov', value),
+    rangeGt: (column, range) => filter(column, 'sr', range),
+    rangeGte: (column, range) => filter(column, 'nxl', range),
+    rangeLt: (column, range) => filter(column, 'sl', range),
+    rangeLte: (column, range) => filter(column, 'nxr', range),
+    rangeAdjacent: (column, range) => filter(column, 'adj', range),
+
+    textSearch(column, query, options = {}) {
+      const prefix = { plain: 'pl', phrase: 'ph', websearch: 'w' }
+      const type = options.type ? prefix[options.type] : ''
+      const config = options.config ? `(${options.config})` : ''
+      state.params.append(column, `${type}fts${config}.${query}`)
+      return builder
+    },
+
+    match(query) {
+      for (const [column, value] of Object.entries(query)) {
+        filter(column, 'eq', value)
+      }
+      return builder
+    },
+
+    not(column, operator, value) {
+      state.params.append(
+        column,
+        `not.${operator}.${formatFilterValue(operator, value)}`
+      )
+      return builder
+    },
+
+    or: (filters, options = {}) => logic('or', filters, options),
+    and: (filters, options = {}) => logic('and', filters, options),
+    filter,
+
+    order(column, options = {}) {
+      const key = options.foreignTable
+        ? `${options.foreignTable}.order`
+        : 'order'
+      const direction = options.ascending === false ? 'desc' : 'asc'
+      let value = `${column}.${direction}`
+      if (options.nullsFirst !== undefined) {
+        value += options.nullsFirst ? '.nullsfirst' : '.nullslast'
+      }
+      const existing = state.params.get(key)
+      state.params.set(key, existing ? `${existing},${value}` : value)
+      return builder
+    },
+
+    limit(count, options = {}) {
+      const key = options.foreignTable
+        ? `${options.foreignTable}.limit`
+        : 'limit'
+      state.params.set(key, String(count))
+      return builder
+    },
+
+    range(from, to, options = {}) {
+      const prefix = options.foreignTable ? `${options.foreignTable}.` : ''
+      state.params.set(`${prefix}offset`, String(from))
+      state.params.set(`${prefix}limit`, String(to - from + 1))
+      return builder
+    },
+
+    abortSignal(signal) {
+      state.signal = signal
+      return builder
+    },
+
+    timeout(milliseconds) {
+      state.timeout = milliseconds
+      return builder
+    },
+
+    throwOnError<Throw extends boolean = true>(value?: Throw) {
+      state.throwOnError = value ?? true
+      return builder as unknown as FilterBuilder<Row, Result, Throw>
+    },
+
+    single() {
+      state.headers.Accept = OBJECT_MEDIA_TYPE
+      return resolvesTo<SingleResult<Result>>()
+    },
+
+    maybeSingle() {
+      state.headers.Accept = OBJECT_MEDIA_TYPE
+      state.maybeSingle = true
+      return resolvesTo<SingleResult<Result> | null>()
+    },
+
+    csv() {
+      state.headers.Accept = 'text/csv'
+      return resolvesTo<string>()
+    },
+
+    geojson() {
+      state.headers.Accept = 'application/geo+json'
+      return resolvesTo<GeoJsonFeatureCollection>()
+    },
+
+    explain<Format extends ExplainFormat = 'text'>({
+      analyze = false,
+      verbose = false,
+      format
+    }: ExplainOptions<Format> = {}) {
+      const options = [analyze && 'analyze', verbose && 'verbose'].filter(
+        Boolean
+      )
+      // `for` keeps the media type the rows would have been returned in
+      const target = state.headers.Accept ?? 'application/json'
+      state.headers.Accept = [
+        `application/vnd.pgrst.plan+${format ?? 'text'}`,
+        `for="${target}"`,
+        ...(options.length ? [`options=${options.join('|')}`] : [])
+      ].join('; ')
+      state.returnsData = true
+      return resolvesTo<ExplainResult<Format>>()
+    },
+
+    select(columns = '*') {
+      state.params.set('select', columns)
+      if (!state.returnsData) {
+        // Writes only echo rows when asked to
+        setPreference(state.headers, 'return', 'representation')
+        state.returnsData = true
+      }
+      return createFilterBuilder(request, state)
+    },
+
+    // The builder is deliberately awaitable
+    // oxlint-disable-next-line unicorn/no-thenable
+    then(onfulfilled, onrejected) {
+      const result = state.throwOnError ? execute() : settle(execute)
+      return (
+        result as Promise<CallResult<Result, ThrowOnError, RestError>>
+      ).then(onfulfilled, onrejected)
+    }
+  }
+
+  return builder
+}
+
+/**
+ * Creates a PostgREST query builder for a table or view.
+ *
+ * Requests go through the client's `request` method, so they carry the
+ * same auth headers and raise the same `SupabaseError` on failure.
+ */
+export function createQueryBuilder<
+  Row,
+  Insert,
+  Update,
+  ThrowOnError extends boolean
+>(
+  request: DoRequestWithResponseFn,
+  table: string,
+  throwOnError = true
+): QueryBuilder<Row, Insert, Update, ThrowOnError> {
+  const endpoint = `${REST_API_PATH}/${table}`
+
+  function mutation(
+    method: HttpMethod,
+    body?: unknown,
+    params = new URLSearchParams(),
+    prefer = 'return=minimal'
+  ) {
+    return createFilterBuilder<Row, null, ThrowOnError>(request, {
+      method,
+      endpoint,
+      params,
+      headers: { Prefer: prefer },
+      body,
+      returnsData: false,
+      throwOnError
+    })
+  }
+
+  return {
+    select(columns = '*') {
+      return createFilterBuilder<Row, Row[], ThrowOnError>(request, {
+        method: 'GET',
+        endpoint,
+        params: new URLSearchParams({ select: columns }),
+        headers: {},
+        returnsData: true,
+        throwOnError
+      })
+    },
+
+    insert: (values) => mutation('POST', values),
+
+    upsert(values, options = {}) {
+      const params = new URLSearchParams()
+      if (options.onConflict) {
+        params.set('on_conflict', [options.onConflict].flat().join(','))
+      }
+      const resolution = options.ignoreDuplicates ? 'ignore' : 'merge'
+      return mutation(
+        'POST',
+        values,
+        params,
+        `return=minimal,resolution=${resolution}-duplicates`
+      )
+    },
+
+    update: (values) => mutation('PATCH', values),
+    delete: () => mutation('DELETE')
+  }
+}
+
+/**
+ * Creates the builder for a Postgres function call.
+ *
+ * Arguments go in the JSON body, or in the query string for `get` and
+ * `head` calls. Filters, ordering and limits apply to the function's result.
+ */
+export function createRpcBuilder<Row, Result, ThrowOnError extends boolean>(
+  request: DoRequestWithResponseFn,
+  fn: string,
+  args: Record<string, unknown> = {},
+  options: RpcOptions = {},
+  throwOnError = true
+): FilterBuilder<Row, Result, ThrowOnError> {
+  const params = new URLSearchParams()
+  const inQuery = options.get || options.head
+  if (inQuery) {
+    for (const [name, value] of Object.entries(args)) {
+      if (value !== undefined) {
+        params.append(name, formatArgument(value))
+      }
+    }
+  }
+
+  return createFilterBuilder<Row, Result, ThrowOnError>(request, {
+    method: options.head ? 'HEAD' : options.get ? 'GET' : 'POST',
+    endpoint: `${REST_API_PATH}/rpc/${fn}`,
+    params,
+    headers: options.count ? { Prefer: `count=${options.count}` } : {},
+    body: inQuery ? undefined : args,
+    returnsData: !options.head,
+    withCount: options.count !== undefined,
+    throwOnError
+  })
+}
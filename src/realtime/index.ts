@@ -0,0 +1,713 @@
+import type {
+  PostgresChangesFilter,
+  PostgresChangesPayload,
+  PresenceJoin,
+  PresenceLeave,
+  PresenceMeta,
+  PresenceState,
+  RealtimeChannel,
+  RealtimeChannelOptions,
+  RealtimeChannelState,
+  RealtimeOptions,
+  RealtimePushStatus,
+  RealtimeSocket,
+  RealtimeSocketConstructor,
+  RealtimeSubscribeStatus
+} from '../types/index.js'
+import { SupabaseError } from '../types/index.js'
+
+const PHOENIX_TOPIC = 'phoenix'
+const SOCKET_OPEN = 1
+const RECONNECT_STEPS_MS = [1000, 2000, 5000]
+
+/**
+ * Default reconnect delay: 1, 2 and 5 seconds, then every 10 seconds.
+ */
+export function defaultReconnectAfterMs(tries: number): number {
+  return RECONNECT_STEPS_MS[tries - 1] ?? 10_000
+}
+
+// Phoenix channel message (serializer vsn 1.0.0)
+interface RealtimeMessage {
+  topic: string
+  event: string
+  payload: Record<string, unknown>
+  ref: string | null
+  join_ref?: string | null
+}
+
+type BindingType = 'postgres_changes' | 'broadcast' | 'presence'
+
+interface Binding {
+  type: BindingType
+  filter: { event: string } & Partial<PostgresChangesFilter>
+  callback: (payload: unknown) => void
+  // Server-assigned id of a postgres_changes subscription
+  id?: number
+}
+
+// What the socket needs from each channel
+interface ChannelHandle {
+  readonly topic: string
+  readonly state: RealtimeChannelState
+  join(): void
+  handle(message: RealtimeMessage): void
+  sendAccessToken(token: string): void
+  socketClosed(manual: boolean): void
+}
+
+function toPresenceMetas(entry: unknown): PresenceMeta[] {
+  const metas =
+    (entry as { metas?: Record<string, unknown>[] } | undefined)?.metas ?? []
+  return metas.map((meta) => {
+    const presence: PresenceMeta = {
+      ...meta,
+      presence_ref: String(meta.phx_ref)
+    }
+    delete presence.phx_ref
+    delete presence.phx_ref_prev
+    return presence
+  })
+}
+
+function toPresenceState(value: unknown): PresenceState {
+  const state: PresenceState = {}
+  for (const [key, entry] of Object.entries(
+    (value as Record<string, unknown> | undefined) ?? {}
+  )) {
+    state[key] = toPresenceMetas(entry)
+  }
+  return state
+}
+
+function presenceRefs(metas: PresenceMeta[] = []): Set<string> {
+  return new Set(metas.map((meta) => meta.presence_ref))
+}
+
+/**
+ * Creates a Supabase Realtime connection speaking the Phoenix channel
+ * protocol over one WebSocket shared by all channels.
+ *
+ * The socket opens on the first `subscribe()`. A heartbeat goes out every
+ * `heartbeatIntervalMs`; when one is left unanswered, or the socket closes
+ * unexpectedly, it reconnects with backoff and rejoins every channel.
+ * `setAuth()` sends a new access token to joined channels.
+ */
+export function createRealtimeClient(
+  endpoint: string,
+  apiKey: string,
+  getAccessToken: () => string | undefined,
+  options: RealtimeOptions = {}
+) {
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? 25_000
+  const timeout = options.timeout ?? 10_000
+  const reconnectAfterMs = options.reconnectAfterMs ?? defaultReconnectAfterMs
+  const channels = new Map<ChannelHandle, RealtimeChannel>()
+
+  let socket: RealtimeSocket | null = null
+  let ref = 0
+  let accessToken = getAccessToken()
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+  let pendingHeartbeat: string | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined
+  let reconnectTries = 0
+  let manuallyClosed = false
+
+  function makeRef(): string {
+    ref += 1
+    return String(ref)
+  }
+
+  function isConnected(): boolean {
+    return socket?.readyState === SOCKET_OPEN
+  }
+
+  function push(message: RealtimeMessage) {
+    if (isConnected()) {
+      socket?.send(JSON.stringify(message))
+    }
+  }
+
+  function sendHeartbeat() {
+    if (pendingHeartbeat) {
+      // The last heartbeat went unanswered; the connection is dead
+      const stale = socket
+      closeSocket(false)
+      stale?.close(1000, 'heartbeat timeout')
+      scheduleReconnect()
+      return
+    }
+    pendingHeartbeat = makeRef()
+    push({
+      topic: PHOENIX_TOPIC,
+      event: 'heartbeat',
+      payload: {},
+      ref: pendingHeartbeat
+    })
+  }
+
+  function route(message: RealtimeMessage) {
+    if (message.topic === PHOENIX_TOPIC) {
+      if (message.ref === pendingHeartbeat) {
+        pendingHeartbeat = null
+      }
+      return
+    }
+    for (const channel of channels.keys()) {
+      if (channel.topic === message.topic) {
+        channel.handle(message)
+      }
+    }
+  }
+
+  // Detaches the current socket and tells channels it is gone
+  function closeSocket(manual: boolean) {
+    clearInterval(heartbeatTimer)
+    heartbeatTimer = undefined
+    pendingHeartbeat = null
+    if (socket) {
+      socket.onopen = null
+      socket.onmessage = null
+      socket.onclose = null
+      socket.onerror = null
+      socket = null
+    }
+    for (const channel of channels.keys()) {
+      channel.socketClosed(manual)
+    }
+  }
+
+  function scheduleReconnect() {
+    clearTimeout(reconnectTimer)
+    reconnectTries += 1
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined
+      open()
+    }, reconnectAfterMs(reconnectTries))
+  }
+
+  function open() {
+    const Socket =
+      options.WebSocket ??
+      (globalThis as { WebSocket?: RealtimeSocketConstructor }).WebSocket
+    if (!Socket) {
+      throw new SupabaseError(
+        'WebSocket is not available; pass realtime.WebSocket in the client config'
+      )
+    }
+    const query = new URLSearchParams({
+      ...options.params,
+      apikey: apiKey,
+      vsn: '1.0.0'
+    })
+    const ws = new Socket(`${endpoint}?${query}`)
+    socket = ws
+    ws.onopen = () => {
+      reconnectTries = 0
+      heartbeatTimer = setInterval(sendHeartbeat, heartbeatIntervalMs)
+      for (const channel of channels.keys()) {
+        if (channel.state === 'joining' || channel.state === 'errored') {
+          channel.join()
+        }
+      }
+    }
+    ws.onmessage = (event) => {
+      route(JSON.parse(String(event.data)) as RealtimeMessage)
+    }
+    // An error is always followed by close, which handles reconnecting
+    ws.onerror = () => {}
+    ws.onclose = () => {
+      closeSocket(false)
+      if (!manuallyClosed) {
+        scheduleReconnect()
+      }
+    }
+  }
+
+  function connect() {
+    if (socket || reconnectTimer) {
+      return
+    }
+    manuallyClosed = false
+    open()
+  }
+
+  function disconnect() {
+    manuallyClosed = true
+    clearTimeout(reconnectTimer)
+    reconnectTimer = undefined
+    reconnectTries = 0
+    const current = socket
+    closeSocket(true)
+    current?.close(1000, 'disconnect')
+  }
+
+  function channel(
+    name: string,
+    channelOptions: RealtimeChannelOptions = {}
+  ): RealtimeChannel {
+    const topic = `realtime:${name}`
+    const bindings: Binding[] = []
+    // Replies awaited by ref, and pushes waiting for the join
+    const replies = new Map<string, (status: RealtimePushStatus) => void>()
+    const queued = new Map<string, () => void>()
+
+    let state: RealtimeChannelState = 'closed'
+    let joinRef: string | null = null
+    let joinTimer: ReturnType<typeof setTimeout> | undefined
+    let rejoinTimer: ReturnType<typeof setTimeout> | undefined
+    let rejoinTries = 0
+    let presences: PresenceState = {}
+    let onStatus:
+      | ((status: RealtimeSubscribeStatus, error?: Error) => void)
+      | undefined
+
+    function emit(type: BindingType, event: string, payload: unknown) {
+      for (const binding of bindings) {
+        if (
+          binding.type === type &&
+          (binding.filter.event === event || binding.filter.event === '*')
+        ) {
+          binding.callback(payload)
+        }
+      }
+    }
+
+    function fail(status: RealtimeSubscribeStatus, error?: Error) {
+      clearTimeout(joinTimer)
+      state = 'errored'
+      onStatus?.(status, error)
+    }
+
+    function scheduleRejoin() {
+      clearTimeout(rejoinTimer)
+      rejoinTries += 1
+      rejoinTimer = setTimeout(() => {
+        if (state === 'errored' && isConnected()) {
+          handle.join()
+        }
+      }, reconnectAfterMs(rejoinTries))
+    }
+
+    function sendPush(
+      event: string,
+      payload: Record<string, unknown>,
+      awaitReply: boolean
+    ): Promise<RealtimePushStatus> {
+      return new Promise((resolve) => {
+        const pushRef = makeRef()
+        const settle = (status: RealtimePushStatus) => {
+          clearTimeout(timer)
+          replies.delete(pushRef)
+          queued.delete(pushRef)
+          resolve(status)
+        }
+        const timer = setTimeout(() => settle('timed out'), timeout)
+        const sendNow = () => {
+          queued.delete(pushRef)
+          push({ topic, event, payload, ref: pushRef, join_ref: joinRef })
+          if (!awaitReply) {
+            settle('ok')
+          }
+        }
+        if (awaitReply) {
+          replies.set(pushRef, settle)
+        }
+        if (state === 'joined' && isConnected()) {
+          sendNow()
+        } else {
+          queued.set(pushRef, sendNow)
+        }
+      })
+    }
+
+    function joined(response: unknown) {
+      clearTimeout(joinTimer)
+      const server =
+        (response as { postgres_changes?: PostgresChangesFilter[] } | undefined)
+          ?.postgres_changes ?? []
+      const changes = bindings.filter(
+        (binding) => binding.type === 'postgres_changes'
+      )
+      for (const [index, binding] of changes.entries()) {
+        const match = server[index] as
+          | (PostgresChangesFilter & { id: number })
+          | undefined
+        if (
+          !match ||
+          match.event !== binding.filter.event ||
+          match.schema !== binding.filter.schema ||
+          (binding.filter.table !== undefined &&
+            match.table !== binding.filter.table) ||
+          (binding.filter.filter !== undefined &&
+            match.filter !== binding.filter.filter)
+        ) {
+          fail(
+            'CHANNEL_ERROR',
+            new SupabaseError(
+              'Server and client postgres_changes subscriptions do not match',
+              undefined,
+              response
+            )
+          )
+          return
+        }
+        binding.id = match.id
+      }
+      state = 'joined'
+      rejoinTries = 0
+      onStatus?.('SUBSCRIBED')
+      for (const sendNow of queued.values()) {
+        sendNow()
+      }
+    }
+
+    function applyPresenceDiff(joins: PresenceState, leaves: PresenceState) {
+      for (const [key, metas] of Object.entries(joins)) {
+        const current = presences[key] ?? []
+        const refs = presenceRefs(metas)
+        presences[key] = [
+          ...current.filter((meta) => !refs.has(meta.presence_ref)),
+          ...metas
+        ]
+        emit('presence', 'join', {
+          event: 'join',
+          key,
+          currentPresences: current,
+          newPresences: metas
+        } satisfies PresenceJoin)
+      }
+      for (const [key, metas] of Object.entries(leaves)) {
+        const current = presences[key]
+        if (!current) {
+          continue
+        }
+        const refs = presenceRefs(metas)
+        const remaining = current.filter((meta) => !refs.has(meta.presence_ref))
+        if (remaining.length) {
+          presences[key] = remaining
+        } else {
+          delete presences[key]
+        }
+        emit('presence', 'leave', {
+          event: 'leave',
+          key,
+          currentPresences: remaining,
+          leftPresences: metas
+        } satisfies PresenceLeave)
+      }
+      emit('presence', 'sync', undefined)
+    }
+
+    // A full state replaces ours; the difference is reported as joins/leaves
+    function syncPresenceState(next: PresenceState) {
+      const joins: PresenceState = {}
+      const leaves: PresenceState = {}
+      for (const [key, metas] of Object.entries(next)) {
+        const known = presenceRefs(presences[key])
+        const added = metas.filter((meta) => !known.has(meta.presence_ref))
+        if (added.length) {
+          joins[key] = added
+        }
+      }
+      for (const [key, metas] of Object.entries(presences)) {
+        const kept = presenceRefs(next[key])
+        const left = metas.filter((meta) => !kept.has(meta.presence_ref))
+        if (left.length) {
+          leaves[key] = left
+        }
+      }
+      applyPresenceDiff(joins, leaves)
+    }
+
+    function postgresChange(payload: Record<string, unknown>) {
+      const ids = (payload.ids as number[] | undefined) ?? []
+      const data = (payload.data ?? {}) as Record<string, unknown>
+      const change: PostgresChangesPayload = {
+        schema: data.schema as string,
+        table: data.table as string,
+        commit_timestamp: data.commit_timestamp as string,
+        eventType: data.type as PostgresChangesPayload['eventType'],
+        new: (data.record ?? {}) as Record<string, unknown>,
+        old: (data.old_record ?? {}) as Record<string, unknown>,
+        errors: (data.errors ?? null) as string[] | null
+      }
+      for (const binding of bindings) {
+        if (
+          binding.type === 'postgres_changes' &&
+          binding.id !== undefined &&
+          ids.includes(binding.id) &&
+          (binding.filter.event === '*' ||
+            binding.filter.event === change.eventType)
+        ) {
+          binding.callback(change)
+        }
+      }
+    }
+
+    const handle: ChannelHandle = {
+      topic,
+
+      get state() {
+        return state
+      },
+
+      join() {
+        clearTimeout(rejoinTimer)
+        state = 'joining'
+        joinRef = makeRef()
+        // Read now, in case a session was restored since `setAuth()`
+        const token = accessToken ?? getAccessToken()
+        clearTimeout(joinTimer)
+        joinTimer = setTimeout(() => {
+          if (state === 'joining') {
+            fail('TIMED_OUT')
+            scheduleRejoin()
+          }
+        }, timeout)
+        push({
+          topic,
+          event: 'phx_join',
+          ref: joinRef,
+          join_ref: joinRef,
+          payload: {
+            config: {
+              broadcast: {
+                ack: false,
+                self: false,
+                ...channelOptions.broadcast
+              },
+              presence: { key: channelOptions.presence?.key ?? '' },
+              postgres_changes: bindings
+                .filter((binding) => binding.type === 'postgres_changes')
+                .map(({ filter }) => filter),
+              private: channelOptions.private ?? false
+            },
+            ...(token && { access_token: token })
+          }
+        })
+      },
+
+      handle(message) {
+        const { event, payload } = message
+        if (event === 'phx_reply') {
+          if (message.ref === joinRef && state === 'joining') {
+            if (payload.status === 'ok') {
+              joined(payload.response)
+            } else {
+              fail(
+                'CHANNEL_ERROR',
+                new SupabaseError(
+                  `Failed to join ${topic}`,
+                  undefined,
+                  payload.response
+                )
+              )
+            }
+            return
+          }
+          const settle = message.ref ? replies.get(message.ref) : undefined
+          settle?.(payload.status === 'ok' ? 'ok' : 'error')
+          return
+        }
+
+        switch (event) {
+          case 'phx_error':
+            if (state === 'joined' || state === 'joining') {
+              fail('CHANNEL_ERROR', new SupabaseError(`${topic} crashed`))
+              scheduleRejoin()
+            }
+            break
+          case 'phx_close':
+            if (state !== 'leaving') {
+              state = 'closed'
+              onStatus?.('CLOSED')
+            }
+            break
+          case 'system':
+            if (payload.status === 'error') {
+              onStatus?.(
+                'CHANNEL_ERROR',
+                new SupabaseError(String(payload.message), undefined, payload)
+              )
+            }
+            break
+          case 'postgres_changes':
+            postgresChange(payload)
+            break
+          case 'broadcast':
+            emit('broadcast', String(payload.event), payload)
+            break
+          case 'presence_state':
+            syncPresenceState(toPresenceState(payload))
+            break
+          case 'presence_diff':
+            applyPresenceDiff(
+              toPresenceState(payload.joins),
+              toPresenceState(payload.leaves)
+            )
+            break
+        }
+      },
+
+      sendAccessToken(token) {
+        if (state === 'joined') {
+          push({
+            topic,
+            event: 'access_token',
+            payload: { access_token: token },
+            ref: makeRef(),
+            join_ref: joinRef
+          })
+        }
+      },
+
+      socketClosed(manual) {
+        clearTimeout(joinTimer)
+        clearTimeout(rejoinTimer)
+        if (state !== 'joined' && state !== 'joining') {
+          return
+        }
+        if (manual) {
+          state = 'closed'
+          onStatus?.('CLOSED')
+        } else {
+          fail('CHANNEL_ERROR', new SupabaseError('Realtime connection lost'))
+        }
+      }
+    }
+
+    const api: RealtimeChannel = {
+      topic,
+
+      get state() {
+        return state
+      },
+
+      on: ((
+        type: BindingType,
+        filter: Binding['filter'],
+        callback: (payload: never) => void
+      ) => {
+        bindings.push({
+          type,
+          filter,
+          callback: callback as (payload: unknown) => void
+        })
+        return api
+      }) as RealtimeChannel['on'],
+
+      subscribe(callback) {
+        onStatus = callback
+        if (state === 'joined' || state === 'joining') {
+          return api
+        }
+        channels.set(handle, api)
+        state = 'joining'
+        if (isConnected()) {
+          handle.join()
+        } else {
+          connect()
+        }
+        return api
+      },
+
+      send(message) {
+        return sendPush(
+          'broadcast',
+          { ...message },
+          channelOptions.broadcast?.ack ?? false
+        )
+      },
+
+      track(presenceState) {
+        return sendPush(
+          'presence',
+          { type: 'presence', event: 'track', payload: presenceState },
+          true
+        )
+      },
+
+      untrack() {
+        return sendPush(
+          'presence',
+          { type: 'presence', event: 'untrack' },
+          true
+        )
+      },
+
+      presenceState() {
+        return presences
+      },
+
+      async unsubscribe() {
+        clearTimeout(joinTimer)
+        clearTimeout(rejoinTimer)
+        let status: RealtimePushStatus = 'ok'
+        if (state === 'joined' && isConnected()) {
+          const leaving = sendPush('phx_leave', {}, true)
+          state = 'leaving'
+          status = await leaving
+        }
+        channels.delete(handle)
+        for (const settle of replies.values()) {
+          settle('error')
+        }
+        queued.clear()
+        presences = {}
+        state = 'closed'
+        onStatus?.('CLOSED')
+        return status
+      }
+    }
+
+    return api
+  }
+
+  return {
+    channel,
+
+    /** Channels that have been subscribed and not yet removed. */
+    getChannels(): RealtimeChannel[] {
+      return [...channels.values()]
+    },
+
+    /** Leaves a channel, closing the socket when it was the last one. */
+    async removeChannel(target: RealtimeChannel): Promise<RealtimePushStatus> {
+      const status = await target.unsubscribe()
+      if (channels.size === 0) {
+        disconnect()
+      }
+      return status
+    },
+
+    /** Leaves every channel and closes the socket. */
+    async removeAllChannels(): Promise<RealtimePushStatus[]> {
+      const statuses = await Promise.all(
+        [...channels.values()].map((target) => target.unsubscribe())
+      )
+      disconnect()
+      return statuses
+    },
+
+    connect,
+    disconnect,
+    isConnected,
+
+    /**
+     * Sends a new access token to every joined channel, e.g. after a
+     * refresh. Defaults to the client's current token.
+     */
+    setAuth(token: string | undefined = getAccessToken()) {
+      if (token === accessToken) {
+        return
+      }
+      accessToken = token
+      if (token) {
+        for (const handle of channels.keys()) {
+          handle.sendAccessToken(token)
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import type {
+  AuthChangeEvent,
+  AuthSession,
+  AuthStateChangeCallback,
+  AuthTokenResponse,
+  AuthUser
+} from '../types/index.js'
+import { SupabaseError } from '../types/index.js'
+import { ERROR_MESSAGES } from '../utils/constants/index.js'
+
+export interface SessionManagerOptions {
+  /** Exchanges a refresh token for a new token pair. */
+  refresh: (refreshToken: string) => Promise<AuthTokenResponse>
+  /** Called whenever the stored session is replaced or cleared. */
+  onSessionChange: (session: AuthSession | null) => void
+  /** Called after the stored session was refreshed. */
+  onRefresh: (session: AuthSession) => void
+  /** Called after a rejected refresh token cleared the session. */
+  onRefreshRejected: () => void
+  /** Seconds before expiry at which the session is refreshed. */
+  refreshMarginSeconds: number
+  /** Whether to schedule a refresh timer for each stored session. */
+  autoRefresh: boolean
+}
+
+/**
+ * Returns true for auth responses that carry a usable token pair.
+ */
+export function isTokenResponse(value: unknown): value is AuthTokenResponse {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+
+  const payload = value as Record<string, unknown>
+  return (
+    typeof payload.access_token === 'string' &&
+    typeof payload.refresh_token === 'string'
+  )
+}
+
+// The Auth server refused the refresh token itself (e.g. 400
+// `invalid_grant`); 408, 429 and 5xx may succeed on a later try
+function isRefreshRejected(error: unknown): boolean {
+  const status = error instanceof SupabaseError ? error.statusCode : undefined
+  return (
+    status !== undefined &&
+    status >= 400 &&
+    status < 500 &&
+    status !== 408 &&
+    status !== 429
+  )
+}
+
+/**
+ * Normalizes a token response into a session with an absolute expiry.
+ */
+export function toSession(
+  response: AuthTokenResponse & { user?: AuthUser }
+): AuthSession {
+  const now = Math.floor(Date.now() / 1000)
+  return {
+    ...response,
+    expires_at: response.expires_at ?? now + response.expires_in
+  }
+}
+
+/**
+ * Holds the current session, refreshes it shortly before it expires and
+ * shares a single in-flight refresh between concurrent callers. When the
+ * Auth server rejects the refresh token, the session is cleared.
+ */
+export function createSessionManager(options: SessionManagerOptions) {
+  let session: AuthSession | null = null
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let inflight: Promise<AuthSession> | null = null
+
+  function secondsUntilRefresh(value: AuthSession): number {
+    const now = Date.now() / 1000
+    return value.expires_at - options.refreshMarginSeconds - now
+  }
+
+  function cancelTimer() {
+    if (timer !== undefined) {
+      clearTimeout(timer)
+      timer = undefined
+    }
+  }
+
+  function schedule(value: AuthSession) {
+    cancelTimer()
+    if (!options.autoRefresh) {
+      return
+    }
+
+    // Sessions already inside the margin are refreshed by the next request
+    const delay = secondsUntilRefresh(value)
+    if (delay <= 0) {
+      return
+    }
+
+    timer = setTimeout(() => {
+      timer = undefined
+      // A failed background refresh is retried by the next request
+      refreshSession().catch(() => {})
+    }, delay * 1000)
+
+    // Node and Bun timers keep the process alive unless unref'd
+    ;(timer as { unref?: () => void }).unref?.()
+  }
+
+  function setSession(
+    value: AuthTokenResponse & { user?: AuthUser }
+  ): AuthSession {
+    session = toSession(value)
+    schedule(session)
+    options.onSessionChange(session)
+    return session
+  }
+
+  function clearSession() {
+    cancelTimer()
+    session = null
+    options.onSessionChange(null)
+  }
+
+  function refreshSession(): Promise<AuthSession> {
+    if (inflight) {
+      return inflight
+    }
+    if (!session) {
+      return Promise.reject(new SupabaseError(ERROR_MESSAGES.NO_SESSION))
+    }
+
+    const current = session
+    inflight = options
+      .refresh(current.refresh_token)
+      .then((response) => {
+        const next = setSession({ user: current.user, ...response })
+        options.onRefresh(next)
+        return next
+      })
+      .catch((error: unknown) => {
+        // A dead session would fail every later request; network and 5xx
+        // errors keep it for the next try
+        if (session === current && isRefreshRejected(error)) {
+          clearSession()
+          options.onRefreshRejected()
+        }
+        throw error
+      })
+      .finally(() => {
+        inflight = null
+      })
+    return inflight
+  }
+
+  /**
+   * Returns the current session, refreshing it first when it is inside
+   * the refresh margin.
+   */
+  async function getFreshSession(): Promise<AuthSession | null> {
+    if (session && secondsUntilRefresh(session) <= 0) {
+      return refreshSession()
+    }
+    return session
+  }
+
+  return {
+    getSession: () => session,
+    setSession,
+    clearSession,
+    refreshSession,
+    getFreshSession
+  }
+}
+
+/**
+ * Minimal listener registry for auth state changes.
+ */
+export function createAuthEventEmitter() {
+  const listeners = new Set<AuthStateChangeCallback>()
+
+  function subscribe(callback: AuthStateChangeCallback): () => void {
+    listeners.add(callback)
+    return () => {
+      listeners.delete(callback)
+    }
+  }
+
+  function emit(event: AuthChangeEvent, session: AuthSession | null) {
+    for (const listener of listeners) {
+      try {
+        listener(event, session)
+      } catch (error) {
+        // A failing listener must not fail the auth call that triggered it
+        queueMicrotask(() => {
+          throw error
+        })
+      }
+    }
+  }
+
+  return {
+    subscribe,
+    emit,
+    has: (callback: AuthStateChangeCallback) => listeners.has(callback)
+  }
+}
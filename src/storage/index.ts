@@ -0,0 +1,358 @@
+import type {
+  Bucket,
+  BucketOptions,
+  DoFetchFn,
+  FileObject,
+  HttpMethod,
+  ListOptions,
+  RequestOptions,
+  ResumableUploadBody,
+  ResumableUploadOptions,
+  SignedUploadUrl,
+  SignedUrl,
+  UploadBody,
+  UploadOptions,
+  UploadResult,
+  UrlOptions
+} from '../types/index.js'
+import { createResumableUpload } from '../tus/index.js'
+import { STORAGE_API_PATH } from '../utils/constants/index.js'
+import { readJson } from '../utils/fetch/index.js'
+
+interface StorageMessage {
+  message: string
+}
+
+// Object keys may contain characters that are special in URLs
+function encodePath(path: string): string {
+  return path.replace(/^\/+/, '').split('/').map(encodeURIComponent).join('/')
+}
+
+function downloadQuery(download: UrlOptions['download']): string {
+  if (download === undefined || download === false) {
+    return ''
+  }
+  return `download=${download === true ? '' : encodeURIComponent(download)}`
+}
+
+function withQuery(url: string, query: string): string {
+  if (!query) {
+    return url
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`
+}
+
+function bucketBody(id: string, options: BucketOptions) {
+  return {
+    id,
+    name: id,
+    public: options.public,
+    file_size_limit: options.fileSizeLimit,
+    allowed_mime_types: options.allowedMimeTypes
+  }
+}
+
+/**
+ * Creates the `client.storage` namespace for buckets and objects under
+ * `/storage/v1`.
+ *
+ * Requests go through the client's authorized request path, so they carry
+ * the user token (refreshed in session mode) and fail with `SupabaseError`.
+ */
+export function createStorageClient(fetchRequest: DoFetchFn, baseUrl: string) {
+  const storageUrl = `${baseUrl}${STORAGE_API_PATH}`
+
+  async function json<T>(
+    method: HttpMethod,
+    endpoint: string,
+    body?: unknown,
+    options?: RequestOptions
+  ): Promise<T> {
+    const response = await fetchRequest(
+      method,
+      `${STORAGE_API_PATH}${endpoint}`,
+      body === undefined ? undefined : JSON.stringify(body),
+      options
+    )
+    return readJson<T>(response)
+  }
+
+  function uploadHeaders(body: UploadBody, options: UploadOptions) {
+    const contentType =
+      options.contentType ??
+      (body instanceof Blob && body.type
+        ? body.type
+        : 'application/octet-stream')
+    return {
+      ...options.headers,
+      'Content-Type': contentType,
+      'cache-control': `max-age=${options.cacheControl ?? 3600}`,
+      'x-upsert': String(options.upsert ?? false)
+    }
+  }
+
+  /**
+   * Object operations scoped to one bucket.
+   */
+  function from(bucket: string) {
+    const bucketPath = encodeURIComponent(bucket)
+    const objectPath = (path: string) => `${bucketPath}/${encodePath(path)}`
+
+    async function sendObject(
+      method: 'POST' | 'PUT',
+      path: string,
+      body: UploadBody,
+      options: UploadOptions
+    ): Promise<UploadResult> {
+      const { upsert, contentType, cacheControl, ...requestOptions } = options
+      const response = await fetchRequest(
+        method,
+        `${STORAGE_API_PATH}/object/${objectPath(path)}`,
+        body as BodyInit,
+        {
+          ...requestOptions,
+          headers: uploadHeaders(body, { upsert, contentType, cacheControl })
+        }
+      )
+      const data = await readJson<{ Id?: string; Key: string }>(response)
+      return { id: data.Id, path, fullPath: data.Key }
+    }
+
+    return {
+      /** Uploads a new object; fails if it exists unless `upsert` is set. */
+      upload(
+        path: string,
+        body: UploadBody,
+        options: UploadOptions = {}
+      ): Promise<UploadResult> {
+        return sendObject('POST', path, body, options)
+      },
+
+      /** Replaces an existing object. */
+      update(
+        path: string,
+        body: UploadBody,
+        options: UploadOptions = {}
+      ): Promise<UploadResult> {
+        return sendObject('PUT', path, body, options)
+      },
+
+      /**
+       * Prepares a chunked upload that can be paused, resumed and picked up
+       * again after a restart. Nothing is sent until `start()`.
+       */
+      createResumableUpload(
+        path: string,
+        body: ResumableUploadBody,
+        options: ResumableUploadOptions = {}
+      ) {
+        return createResumableUpload(fetchRequest, bucket, path, body, options)
+      },
+
+      /** Downloads an object the current user can read. */
+      async download(path: string, options?: RequestOptions): Promise<Blob> {
+        const response = await fetchRequest(
+          'GET',
+          `${STORAGE_API_PATH}/object/${objectPath(path)}`,
+          undefined,
+          options
+        )
+        return response.blob()
+      },
+
+      /** Lists objects and folders directly under `prefix`. */
+      list(prefix = '', options: ListOptions = {}): Promise<FileObject[]> {
+        const { limit, offset, search, sortBy, ...requestOptions } = options
+        return json(
+          'POST',
+          `/object/list/${bucketPath}`,
+          {
+            prefix,
+            limit: limit ?? 100,
+            offset: offset ?? 0,
+            search: search ?? '',
+            sortBy: {
+              column: sortBy?.column ?? 'name',
+              order: sortBy?.order ?? 'asc'
+            }
+          },
+          requestOptions
+        )
+      },
+
+      /** Moves an object, optionally into another bucket. */
+      move(
+        fromPath: string,
+        toPath: string,
+        options: { destinationBucket?: string } = {}
+      ): Promise<StorageMessage> {
+        return json('POST', '/object/move', {
+          bucketId: bucket,
+          sourceKey: fromPath,
+          destinationKey: toPath,
+          destinationBucket: options.destinationBucket
+        })
+      },
+
+      /** Copies an object, optionally into another bucket. */
+      async copy(
+        fromPath: string,
+        toPath: string,
+        options: { destinationBucket?: string } = {}
+      ): Promise<{ path: string }> {
+        const data = await json<{ Key: string }>('POST', '/object/copy', {
+          bucketId: bucket,
+          sourceKey: fromPath,
+          destinationKey: toPath,
+          destinationBucket: options.destinationBucket
+        })
+        return { path: data.Key }
+      },
+
+      /** Deletes objects and returns the ones removed. */
+      remove(paths: string[]): Promise<FileObject[]> {
+        return json('DELETE', `/object/${bucketPath}`, { prefixes: paths })
+      },
+
+      /** Creates a URL that grants access to an object for `expiresIn` seconds. */
+      async createSignedUrl(
+        path: string,
+        expiresIn: number,
+        options: UrlOptions = {}
+      ): Promise<{ signedUrl: string }> {
+        const data = await json<{ signedURL: string }>(
+          'POST',
+          `/object/sign/${objectPath(path)}`,
+          { expiresIn }
+        )
+        return {
+          signedUrl: withQuery(
+            `${storageUrl}${data.signedURL}`,
+            downloadQuery(options.download)
+          )
+        }
+      },
+
+      /**
+       * Signs several objects in one request. Paths that cannot be signed
+       * come back with `error` set instead of failing the batch.
+       */
+      async createSignedUrls(
+        paths: string[],
+        expiresIn: number,
+        options: UrlOptions = {}
+      ): Promise<SignedUrl[]> {
+        const data = await json<
+          {
+            path: string | null
+            signedURL: string | null
+            error: string | null
+          }[]
+        >('POST', `/object/sign/${bucketPath}`, { expiresIn, paths })
+        return data.map((entry) => ({
+          path: entry.path,
+          error: entry.error,
+          signedUrl: entry.signedURL
+            ? withQuery(
+                `${storageUrl}${entry.signedURL}`,
+                downloadQuery(options.download)
+              )
+            : null
+        }))
+      },
+
+      /**
+       * Creates a URL (valid for two hours) that lets anyone holding it
+       * upload to `path` without credentials.
+       */
+      async createSignedUploadUrl(
+        path: string,
+        options: { upsert?: boolean } = {}
+      ): Promise<SignedUploadUrl> {
+        const data = await json<{ url: string }>(
+          'POST',
+          `/object/upload/sign/${objectPath(path)}`,
+          undefined,
+          options.upsert ? { headers: { 'x-upsert': 'true' } } : undefined
+        )
+        const signedUrl = `${storageUrl}${data.url}`
+        const token = new URL(signedUrl).searchParams.get('token') ?? ''
+        return { signedUrl, token, path }
+      },
+
+      /** Uploads with a token from `createSignedUploadUrl`. */
+      async uploadToSignedUrl(
+        path: string,
+        token: string,
+        body: UploadBody,
+        options: UploadOptions = {}
+      ): Promise<UploadResult> {
+        const { upsert, contentType, cacheControl, ...requestOptions } = options
+        const response = await fetchRequest(
+          'PUT',
+          `${STORAGE_API_PATH}/object/upload/sign/${objectPath(path)}?token=${encodeURIComponent(token)}`,
+          body as BodyInit,
+          {
+            ...requestOptions,
+            headers: uploadHeaders(body, { upsert, contentType, cacheControl })
+          }
+        )
+        const data = await readJson<{ Key: string }>(response)
+        return { path, fullPath: data.Key }
+      },
+
+      /**
+       * Builds the URL of an object in a public bucket. No request is made
+       * and the object is not checked for existence.
+       */
+      getPublicUrl(
+        path: string,
+        options: UrlOptions = {}
+      ): { publicUrl: string } {
+        return {
+          publicUrl: withQuery(
+            `${storageUrl}/object/public/${objectPath(path)}`,
+            downloadQuery(options.download)
+          )
+        }
+      }
+    }
+  }
+
+  return {
+    from,
+
+    listBuckets(): Promise<Bucket[]> {
+      return json('GET', '/bucket')
+    },
+
+    getBucket(id: string): Promise<Bucket> {
+      return json('GET', `/bucket/${encodeURIComponent(id)}`)
+    },
+
+    createBucket(
+      id: string,
+      options: BucketOptions = { public: false }
+    ): Promise<{ name: string }> {
+      return json('POST', '/bucket', bucketBody(id, options))
+    },
+
+    updateBucket(id: string, options: BucketOptions): Promise<StorageMessage> {
+      return json(
+        'PUT',
+        `/bucket/${encodeURIComponent(id)}`,
+        bucketBody(id, options)
+      )
+    },
+
+    /** Deletes every object in the bucket. */
+    emptyBucket(id: string): Promise<StorageMessage> {
+      return json('POST', `/bucket/${encodeURIComponent(id)}/empty`)
+    },
+
+    /** Deletes a bucket; it must be empty. */
+    deleteBucket(id: string): Promise<StorageMessage> {
+      return json('DELETE', `/bucket/${encodeURIComponent(id)}`)
+    }
+  }
+}
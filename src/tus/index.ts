@@ -0,0 +1,270 @@
+import type {
+  DoFetchFn,
+  ResumableUploadBody,
+  ResumableUploadOptions,
+  ResumableUploadStatus
+} from '../types/index.js'
+import { AbortError, SupabaseError } from '../types/index.js'
+import { ERROR_MESSAGES, STORAGE_API_PATH } from '../utils/constants/index.js'
+
+const TUS_VERSION = '1.0.0'
+const RESUMABLE_API_PATH = `${STORAGE_API_PATH}/upload/resumable`
+// Supabase Storage only accepts 6 MB chunks (the last one may be smaller)
+const DEFAULT_CHUNK_SIZE = 6 * 1024 * 1024
+
+function base64(value: string): string {
+  let binary = ''
+  for (const byte of new TextEncoder().encode(value)) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary)
+}
+
+/**
+ * Encodes `Upload-Metadata`: comma-separated `key base64(value)` pairs.
+ */
+export function encodeUploadMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${base64(value)}`)
+    .join(',')
+}
+
+// Files add their name and modification time, and Blobs their type, so a
+// different body of the same size does not resume another upload
+function defaultFingerprint(
+  bucket: string,
+  path: string,
+  body: ResumableUploadBody,
+  size: number
+): string {
+  const parts = [`tus::${bucket}/${path}`, String(size)]
+  if (body instanceof Blob) {
+    parts.push(body.type)
+  }
+  if (body instanceof File) {
+    parts.push(body.name, String(body.lastModified))
+  }
+  return parts.join('::')
+}
+
+function toBlob(body: ResumableUploadBody): Blob {
+  if (body instanceof Blob) {
+    return body
+  }
+  return new Blob([body as BlobPart])
+}
+
+/**
+ * Creates a resumable upload using the TUS protocol.
+ *
+ * `start()` creates the upload (or finds the stored one and asks the server
+ * for its offset with HEAD), then sends the remaining bytes in PATCH chunks.
+ * It resolves with `'completed'`, or `'paused'` after `pause()`. `resume()`
+ * continues from the server's offset. `abort()` rejects a running upload
+ * with `AbortError` and terminates it on the server.
+ *
+ * @throws SupabaseError when `chunkSize` is not a positive integer.
+ */
+export function createResumableUpload(
+  fetchRequest: DoFetchFn,
+  bucket: string,
+  path: string,
+  body: ResumableUploadBody,
+  options: ResumableUploadOptions = {}
+) {
+  const file = toBlob(body)
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new SupabaseError(ERROR_MESSAGES.INVALID_CHUNK_SIZE)
+  }
+  const fingerprint =
+    options.fingerprint ?? defaultFingerprint(bucket, path, body, file.size)
+  const tusHeaders = { 'Tus-Resumable': TUS_VERSION }
+
+  let url: string | null = null
+  let offset = 0
+  let aborted = false
+  let controller: AbortController | null = null
+  let running: Promise<ResumableUploadStatus> | null = null
+
+  async function createUpload(signal: AbortSignal): Promise<string> {
+    const response = await fetchRequest('POST', RESUMABLE_API_PATH, undefined, {
+      signal,
+      headers: {
+        ...tusHeaders,
+        'Upload-Length': String(file.size),
+        'Upload-Metadata': encodeUploadMetadata({
+          bucketName: bucket,
+          objectName: path,
+          contentType:
+            options.contentType ?? (file.type || 'application/octet-stream'),
+          cacheControl: String(options.cacheControl ?? 3600)
+        }),
+        'x-upsert': String(options.upsert ?? false)
+      }
+    })
+    const location = response.headers.get('Location')
+    if (!location) {
+      throw new SupabaseError(
+        ERROR_MESSAGES.INVALID_RESPONSE,
+        response.status,
+        'Missing Location header'
+      )
+    }
+    await options.urlStorage?.set(fingerprint, location)
+    return location
+  }
+
+  // The server's `Upload-Offset`, which must be past `after` so a server
+  // that stops advancing cannot keep the upload looping
+  function readOffset(response: Response, after = -1): number {
+    const header = response.headers.get('Upload-Offset')
+    const value = header ? Number(header) : Number.NaN
+    if (!Number.isInteger(value) || value <= after) {
+      throw new SupabaseError(
+        ERROR_MESSAGES.INVALID_RESPONSE,
+        response.status,
+        'Missing or invalid Upload-Offset header'
+      )
+    }
+    return value
+  }
+
+  // `null` when the server no longer knows the upload
+  async function fetchOffset(
+    uploadUrl: string,
+    signal: AbortSignal
+  ): Promise<number | null> {
+    try {
+      const response = await fetchRequest('HEAD', uploadUrl, undefined, {
+        signal,
+        headers: tusHeaders
+      })
+      return readOffset(response)
+    } catch (error) {
+      if (
+        error instanceof SupabaseError &&
+        (error.statusCode === 404 || error.statusCode === 410)
+      ) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  // `pause()` aborts the run's own signal, so a later run is unaffected
+  async function run(signal: AbortSignal): Promise<ResumableUploadStatus> {
+    try {
+      url ??= (await options.urlStorage?.get(fingerprint)) ?? null
+      if (url) {
+        const found = await fetchOffset(url, signal)
+        if (found === null) {
+          url = null
+          await options.urlStorage?.remove(fingerprint)
+        } else {
+          offset = found
+        }
+      }
+      if (!url) {
+        url = await createUpload(signal)
+        offset = 0
+      }
+      options.onProgress?.(offset, file.size)
+
+      while (offset < file.size) {
+        if (signal.aborted && !aborted) {
+          return 'paused'
+        }
+        const chunk = file.slice(offset, offset + chunkSize)
+        const response = await fetchRequest('PATCH', url, chunk, {
+          signal,
+          headers: {
+            ...tusHeaders,
+            'Upload-Offset': String(offset),
+            'Content-Type': 'application/offset+octet-stream'
+          }
+        })
+        offset = readOffset(response, offset)
+        options.onProgress?.(offset, file.size)
+      }
+
+      await options.urlStorage?.remove(fingerprint)
+      return 'completed'
+    } catch (error) {
+      if (signal.aborted && !aborted && error instanceof AbortError) {
+        return 'paused'
+      }
+      throw error
+    } finally {
+      if (controller?.signal === signal) {
+        controller = null
+        running = null
+      }
+    }
+  }
+
+  return {
+    fingerprint,
+
+    /** Upload URL once created or found in `urlStorage`. */
+    get url(): string | null {
+      return url
+    },
+
+    /** Bytes the server has confirmed. */
+    get offset(): number {
+      return offset
+    },
+
+    /**
+     * Starts or continues the upload; concurrent calls share one run. After
+     * `pause()` a new run starts once the paused one has settled.
+     */
+    start(): Promise<ResumableUploadStatus> {
+      if (aborted) {
+        return Promise.reject(new AbortError())
+      }
+      if (running && !controller?.signal.aborted) {
+        return running
+      }
+      const previous = running
+      controller = new AbortController()
+      const { signal } = controller
+      running = previous
+        ? previous.then(
+            () => run(signal),
+            () => run(signal)
+          )
+        : run(signal)
+      return running
+    },
+
+    /** Alias of `start()` for readability after `pause()`. */
+    resume(): Promise<ResumableUploadStatus> {
+      return this.start()
+    },
+
+    /** Stops sending; the chunk in flight is cancelled. */
+    pause(): void {
+      controller?.abort()
+    },
+
+    /**
+     * Cancels the upload for good: deletes it on the server (best effort)
+     * and forgets its stored URL.
+     */
+    async abort(): Promise<void> {
+      aborted = true
+      controller?.abort()
+      await running?.catch(() => undefined)
+      if (url) {
+        try {
+          await fetchRequest('DELETE', url, undefined, { headers: tusHeaders })
+        } catch {
+          // The server expires unfinished uploads on its own
+        }
+      }
+      await options.urlStorage?.remove(fingerprint)
+    }
+  }
+}
@@ -1,9 +1,149 @@
 import type { createSupabaseClient } from '../client/index.js'
-export type SupabaseClient = ReturnType<typeof createSupabaseClient>
+import type { createStorageClient } from '../storage/index.js'
+import type { createResumableUpload } from '../tus/index.js'
+import type { createFunctionsClient } from '../functions/index.js'
+import type { createRealtimeClient } from '../realtime/index.js'
+import type { createAuthAdminClient } from '../admin/index.js'
+import type { createMfaClient } from '../mfa/index.js'
+import { ERROR_MESSAGES } from '../utils/constants/index.js'
+export type SupabaseClient<
+  Database = GenericDatabase,
+  SchemaName extends keyof Database = DefaultSchemaName<Database>,
+  ThrowOnError extends boolean = true
+> = ReturnType<typeof createSupabaseClient<Database, SchemaName, ThrowOnError>>
 /**
  * Type definitions for Supabase REST client
  */
 
+export type StorageClient = ReturnType<typeof createStorageClient>
+export type StorageFileApi = ReturnType<StorageClient['from']>
+export type ResumableUpload = ReturnType<typeof createResumableUpload>
+export type FunctionsClient = ReturnType<typeof createFunctionsClient>
+export type RealtimeClient = ReturnType<typeof createRealtimeClient>
+export type AuthAdminClient = ReturnType<typeof createAuthAdminClient>
+export type MfaClient = ReturnType<typeof createMfaClient>
+
+/**
+ * Shape of a table in a generated `Database` type
+ */
+export interface GenericTable {
+  Row: Record<string, unknown>
+  Insert: Record<string, unknown>
+  Update: Record<string, unknown>
+}
+
+export interface GenericView {
+  Row: Record<string, unknown>
+}
+
+export interface GenericFunction {
+  Args: Record<string, unknown>
+  Returns: unknown
+}
+
+/**
+ * Shape of a schema in a generated `Database` type
+ * (e.g. the output of `supabase gen types typescript`)
+ */
+export interface GenericSchema {
+  Tables: Record<string, GenericTable>
+  Views: Record<string, GenericView>
+  Functions: Record<string, GenericFunction>
+}
+
+/**
+ * Fallback database type used when no `Database` generic is supplied:
+ * any table name is accepted and rows are plain records.
+ */
+export type GenericDatabase = Record<string, GenericSchema>
+
+/**
+ * `public` when the database declares it, otherwise any declared schema
+ */
+export type DefaultSchemaName<Database> = Extract<
+  keyof Database,
+  'public' extends keyof Database ? 'public' : string
+>
+
+export type SchemaOf<
+  Database,
+  SchemaName extends keyof Database
+> = Database[SchemaName] extends GenericSchema ? Database[SchemaName] : never
+
+export type TableName<Schema extends GenericSchema> = Extract<
+  keyof Schema['Tables'],
+  string
+>
+
+export type TableOrViewName<Schema extends GenericSchema> = Extract<
+  keyof Schema['Tables'] | keyof Schema['Views'],
+  string
+>
+
+export type TableRow<
+  Schema extends GenericSchema,
+  Name
+> = Name extends keyof Schema['Tables']
+  ? Schema['Tables'][Name]['Row']
+  : Name extends keyof Schema['Views']
+    ? Schema['Views'][Name]['Row']
+    : never
+
+export type FunctionName<Schema extends GenericSchema> = Extract<
+  keyof Schema['Functions'],
+  string
+>
+
+export type FunctionArgs<
+  Schema extends GenericSchema,
+  Name
+> = Name extends keyof Schema['Functions']
+  ? Schema['Functions'][Name]['Args']
+  : never
+
+export type FunctionReturns<
+  Schema extends GenericSchema,
+  Name
+> = Name extends keyof Schema['Functions']
+  ? Schema['Functions'][Name]['Returns']
+  : never
+
+/**
+ * Row a function result can be filtered on: the element type for
+ * set-returning functions, a plain record otherwise
+ */
+export type FunctionRow<Returns> = Returns extends readonly (infer Row)[]
+  ? Row
+  : Record<string, unknown>
+
+/**
+ * Insert shape of a table, or of an updatable view; `never` otherwise
+ */
+export type TableInsert<
+  Schema extends GenericSchema,
+  Name
+> = Name extends keyof Schema['Tables']
+  ? Schema['Tables'][Name]['Insert']
+  : Name extends keyof Schema['Views']
+    ? Schema['Views'][Name] extends { Insert: infer Insert }
+      ? Insert
+      : never
+    : never
+
+/**
+ * Update shape of a table, or of an updatable view; `never` otherwise
+ */
+export type TableUpdate<
+  Schema extends GenericSchema,
+  Name
+> = Name extends keyof Schema['Tables']
+  ? Schema['Tables'][Name]['Update']
+  : Name extends keyof Schema['Views']
+    ? Schema['Views'][Name] extends { Update: infer Update }
+      ? Update
+      : never
+    : never
+
 /**
  * The format of a Supabase API key.
  *
@@ -13,6 +153,82 @@ export type SupabaseClient = ReturnType<typeof createSupabaseClient>
  */
 export type KeyType = 'publishable' | 'secret' | 'legacy'
 
+/**
+ * JOSE header of a JWT
+ */
+export interface JwtHeader {
+  alg: string
+  typ?: string
+  kid?: string
+  [key: string]: unknown
+}
+
+/**
+ * Claims of a Supabase access token. Standard claims are optional because
+ * any JWT can be decoded.
+ */
+export interface JwtPayload {
+  sub?: string
+  role?: string
+  aal?: AuthenticatorAssuranceLevel
+  amr?: { method: string; timestamp: number }[]
+  session_id?: string
+  email?: string
+  phone?: string
+  is_anonymous?: boolean
+  app_metadata?: Record<string, unknown>
+  user_metadata?: Record<string, unknown>
+  iss?: string
+  aud?: string | string[]
+  exp?: number
+  iat?: number
+  [key: string]: unknown
+}
+
+/**
+ * A JWT split into its decoded parts, as returned by `decodeJwt`
+ */
+export interface DecodedJwt {
+  header: JwtHeader
+  payload: JwtPayload
+  signature: Uint8Array
+  /** The `header.payload` text the signature was computed over. */
+  signingInput: string
+}
+
+/**
+ * JSON Web Key Set, as served at `/auth/v1/.well-known/jwks.json`
+ */
+export interface JsonWebKeySet {
+  keys: (JsonWebKey & { kid?: string })[]
+}
+
+/**
+ * Key material for `verifyJwt`: a JWKS for asymmetric (ES256/RS256) tokens
+ * or the shared secret for HS256 tokens.
+ */
+export type JwtVerificationKey = { jwks: JsonWebKeySet } | { secret: string }
+
+export interface GetClaimsOptions {
+  /**
+   * Shared secret for verifying HS256 tokens locally. Without it, HS256
+   * tokens are checked by the Auth server instead.
+   */
+  jwtSecret?: string
+}
+
+/**
+ * Database options for `ClientConfig`
+ */
+export interface DbOptions {
+  /**
+   * Schema REST calls use unless `client.schema()` picks another. It has
+   * to be exposed in the project's API settings. Defaults to PostgREST's
+   * first exposed schema, usually `public`.
+   */
+  schema?: string
+}
+
 /**
  * Configuration options for the Supabase client.
  */
@@ -28,6 +244,131 @@ export interface ClientConfig {
   apiKey: string
   /** Optional JWT access token for authenticated requests. */
   token?: string
+  /**
+   * Stores the session returned by sign-in, anonymous sign-in, PKCE
+   * exchange and OTP verification, refreshes it shortly before it expires
+   * (or after a 401, retrying the request once) and clears it on sign-out.
+   * Defaults to `false`; always on when `storage` is set.
+   */
+  autoRefreshToken?: boolean
+  /** Seconds before expiry at which the session is refreshed. Defaults to 60. */
+  refreshMarginSeconds?: number
+  /**
+   * Where the session is persisted. Setting it turns on session mode (see
+   * `autoRefreshToken`): the stored session is restored on creation and
+   * every change is written back.
+   */
+  storage?: SessionStorage
+  /** Key the session is stored under. Defaults to `sb-<project-ref>-auth-token`. */
+  storageKey?: string
+  /**
+   * `pkce` sends an S256 code challenge with OAuth, sign-up, magic link and
+   * recovery requests and keeps the verifier (in `storage` when set) for
+   * `exchangeCodeForSession`. Defaults to `implicit`.
+   */
+  flowType?: AuthFlowType
+  /**
+   * Milliseconds to wait for a response, body included, before failing
+   * with a `TimeoutError`. Applies to each attempt; no limit by default.
+   */
+  timeout?: number
+  /** Retry policy for every request. Requests are not retried by default. */
+  retry?: RetryOptions
+  /**
+   * Fetch implementation used for every request, e.g. an instrumented fetch
+   * or a test double. Defaults to the global `fetch`.
+   */
+  fetch?: Fetch
+  /**
+   * Headers sent with every request. They override the defaults (including
+   * `x-client-info`) and are overridden by per-call headers.
+   */
+  headers?: Record<string, string>
+  /**
+   * Middleware run around every request, first to last. Each one may change
+   * the outgoing request, inspect or replace the response, or catch errors.
+   */
+  interceptors?: Interceptor[]
+  /** Socket and timing options for `client.channel()`. */
+  realtime?: RealtimeOptions
+  /** Options for REST (PostgREST) calls. */
+  db?: DbOptions
+  /**
+   * When `false`, REST, auth (including `auth.admin` and `auth.mfa`) and
+   * user methods resolve to `{ data, error, status, statusText, count }`
+   * instead of throwing. Storage, Edge Functions, realtime, `getClaims` and
+   * the OAuth helpers still throw. Defaults to `true`; calls can override it
+   * with their own `throwOnError`.
+   */
+  throwOnError?: boolean
+}
+
+/**
+ * Outgoing request as seen by interceptors, with default headers applied
+ * and the body already serialized
+ */
+export interface InterceptorRequest {
+  method: HttpMethod
+  url: string
+  headers: Record<string, string>
+  body?: BodyInit
+}
+
+export type InterceptorNext = (request: InterceptorRequest) => Promise<Response>
+
+/**
+ * Request middleware. Call `next` to continue the chain, optionally with a
+ * modified request; the final step applies timeouts and retries and sends it.
+ *
+ * @example
+ * ```typescript
+ * const tracing: Interceptor = (request, next) =>
+ *   next({
+ *     ...request,
+ *     headers: { ...request.headers, traceparent: createTraceparent() }
+ *   })
+ * ```
+ */
+export type Interceptor = (
+  request: InterceptorRequest,
+  next: InterceptorNext
+) => Promise<Response>
+
+export type Fetch = (
+  input: RequestInfo | URL,
+  init?: RequestInit
+) => Promise<Response>
+
+/**
+ * Retry policy for transient failures: network errors, timeouts and the
+ * listed statuses. Waits use exponential backoff with jitter, or the
+ * `Retry-After` header on 429 and 503 responses.
+ */
+export interface RetryOptions {
+  /** Attempts after the first one. Defaults to 0. */
+  retries?: number
+  /** Base backoff delay in milliseconds. Defaults to 300. */
+  baseDelay?: number
+  /** Maximum backoff delay in milliseconds. Defaults to 10000. */
+  maxDelay?: number
+  /**
+   * Methods that may be retried. Defaults to the idempotent
+   * `GET`, `HEAD`, `PUT` and `DELETE`.
+   */
+  methods?: HttpMethod[]
+  /** Statuses that trigger a retry. Defaults to 408, 429, 500, 502, 503, 504. */
+  statuses?: number[]
+}
+
+export type AuthFlowType = 'implicit' | 'pkce'
+
+/**
+ * Async key-value store used to persist the session
+ */
+export interface SessionStorage {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string): Promise<void>
+  remove(key: string): Promise<void>
 }
 
 export interface AuthUser {
@@ -37,10 +378,162 @@ export interface AuthUser {
   app_metadata?: Record<string, unknown>
   user_metadata?: Record<string, unknown>
   identities?: unknown[]
+  factors?: AuthFactor[]
   is_anonymous?: boolean
   [key: string]: unknown
 }
 
+/**
+ * A multi-factor authentication factor enrolled by a user
+ */
+export interface AuthFactor {
+  id: string
+  friendly_name?: string
+  factor_type: 'totp' | 'phone' | (string & {})
+  status: 'verified' | 'unverified'
+  created_at: string
+  updated_at: string
+  [key: string]: unknown
+}
+
+/** Authenticator assurance level: `aal2` once a second factor is verified. */
+export type AuthenticatorAssuranceLevel = 'aal1' | 'aal2'
+
+/**
+ * Parameters for `auth.mfa.enroll()`
+ */
+export type MfaEnrollParams =
+  | { factorType: 'totp'; friendlyName?: string; issuer?: string }
+  | { factorType: 'phone'; phone: string; friendlyName?: string }
+
+/**
+ * A newly enrolled, still unverified factor. TOTP factors include the QR
+ * code (an SVG data URI), the secret and the `otpauth://` URI.
+ */
+export interface MfaEnrollResponse {
+  id: string
+  type: 'totp' | 'phone'
+  friendly_name?: string
+  totp?: { qr_code: string; secret: string; uri: string }
+  phone?: string
+}
+
+/**
+ * Parameters for `auth.mfa.challenge()`. Phone factors can pick the
+ * delivery channel.
+ */
+export interface MfaChallengeParams {
+  factorId: string
+  channel?: MessagingChannel
+}
+
+export interface MfaChallengeResponse {
+  id: string
+  type: 'totp' | 'phone'
+  /** Unix time in seconds after which the challenge can't be verified. */
+  expires_at: number
+}
+
+export interface MfaVerifyParams {
+  factorId: string
+  challengeId: string
+  code: string
+}
+
+/**
+ * Verified factors of the current user, in total and by type
+ */
+export interface MfaFactorList {
+  all: AuthFactor[]
+  totp: AuthFactor[]
+  phone: AuthFactor[]
+}
+
+/**
+ * Assurance level of the current access token (`currentLevel`) and the
+ * level the user can reach by verifying a factor (`nextLevel`)
+ */
+export interface AuthenticatorAssurance {
+  currentLevel: AuthenticatorAssuranceLevel | null
+  nextLevel: AuthenticatorAssuranceLevel | null
+  currentAuthenticationMethods: { method: string; timestamp: number }[]
+}
+
+/**
+ * User fields an admin can set with `auth.admin.createUser()` and
+ * `auth.admin.updateUserById()`
+ */
+export interface AdminUserAttributes {
+  email?: string
+  phone?: string
+  password?: string
+  /** Marks the email as confirmed without sending a confirmation. */
+  email_confirm?: boolean
+  phone_confirm?: boolean
+  user_metadata?: Record<string, unknown>
+  /** Only admins can write app metadata. */
+  app_metadata?: Record<string, unknown>
+  /**
+   * Bans the user for a Go duration such as `'24h'` or `'876000h'`;
+   * `'none'` lifts a ban.
+   */
+  ban_duration?: string
+  role?: string
+}
+
+export interface ListUsersOptions extends RequestOptions {
+  /** 1-based. Defaults to 1. */
+  page?: number
+  /** Defaults to 50. */
+  perPage?: number
+}
+
+export interface UserList {
+  users: AuthUser[]
+  /** Users across all pages, from `X-Total-Count`. */
+  total: number
+  nextPage: number | null
+  lastPage: number
+}
+
+interface GenerateLinkOptions {
+  redirectTo?: string
+}
+
+/**
+ * Parameters for `auth.admin.generateLink()`, by link type
+ */
+export type GenerateLinkParams =
+  | {
+      type: 'signup'
+      email: string
+      password: string
+      options?: GenerateLinkOptions & { data?: Record<string, unknown> }
+    }
+  | {
+      type: 'invite' | 'magiclink'
+      email: string
+      options?: GenerateLinkOptions & { data?: Record<string, unknown> }
+    }
+  | { type: 'recovery'; email: string; options?: GenerateLinkOptions }
+  | {
+      type: 'email_change_current' | 'email_change_new'
+      email: string
+      newEmail: string
+      options?: GenerateLinkOptions
+    }
+
+export interface GeneratedLink {
+  properties: {
+    action_link: string
+    email_otp: string
+    hashed_token: string
+    redirect_to: string
+    verification_type: string
+  }
+  user: AuthUser
+}
+
 /**
  * Response from authentication token endpoint
  */
@@ -56,6 +549,32 @@ export interface AuthSessionResponse extends AuthTokenResponse {
   user: AuthUser
 }
 
+/**
+ * Session held by the client, with `expires_at` always resolved
+ * (seconds since the epoch).
+ */
+export interface AuthSession extends AuthTokenResponse {
+  expires_at: number
+  user?: AuthUser
+}
+
+/**
+ * Events passed to `onAuthStateChange` listeners
+ */
+export type AuthChangeEvent =
+  | 'INITIAL_SESSION'
+  | 'SIGNED_IN'
+  | 'SIGNED_OUT'
+  | 'TOKEN_REFRESHED'
+  | 'USER_UPDATED'
+  | 'PASSWORD_RECOVERY'
+  | 'MFA_CHALLENGE_VERIFIED'
+
+export type AuthStateChangeCallback = (
+  event: AuthChangeEvent,
+  session: AuthSession | null
+) => void
+
 export type AuthSignUpResponse =
   | AuthSessionResponse
   | AuthUser
@@ -69,6 +588,7 @@ export type AuthSignUpResponse =
  */
 export interface TokenRequestPayload {
   email?: string
+  phone?: string
   password?: string
   refresh_token?: string
   auth_code?: string
@@ -78,6 +598,7 @@ export interface TokenRequestPayload {
   code_challenge?: string | null
   code_challenge_method?: string | null
   code_verifier?: string | null
+  channel?: MessagingChannel
 }
 
 export interface SignUpOptions {
@@ -86,6 +607,83 @@ export interface SignUpOptions {
   redirectTo?: string
 }
 
+/**
+ * Options for phone and password sign-up. The confirmation code is sent
+ * over `channel` (SMS by default).
+ */
+export interface PhoneSignUpOptions {
+  data?: Record<string, unknown>
+  captchaToken?: string
+  channel?: MessagingChannel
+}
+
+/** Channel used to deliver phone OTPs. */
+export type MessagingChannel = 'sms' | 'whatsapp'
+
+/** OTP types that are verified against an email address or token hash. */
+export type EmailOtpType =
+  | 'signup'
+  | 'invite'
+  | 'magiclink'
+  | 'recovery'
+  | 'email_change'
+  | 'email'
+
+/** OTP types that are verified against a phone number. */
+export type MobileOtpType = 'sms' | 'phone_change'
+
+/** Who to send a one-time password to. */
+export type OtpCredentials = { email: string } | { phone: string }
+
+export interface SignInWithOtpOptions {
+  /** Set to `false` to only sign in existing users. Defaults to `true`. */
+  shouldCreateUser?: boolean
+  /** Where the email link redirects to. Ignored for phone OTPs. */
+  emailRedirectTo?: string
+  /** Delivery channel for phone OTPs. Defaults to `'sms'`. */
+  channel?: MessagingChannel
+  /** User metadata stored when a new user is created. */
+  data?: Record<string, unknown>
+  captchaToken?: string
+}
+
+/**
+ * Response from `signInWithOtp`. Phone OTPs include the provider's
+ * message id.
+ */
+export interface OtpResponse {
+  message_id?: string | null
+}
+
+/**
+ * Parameters for `verifyOtp`: an email or phone code, or the token hash
+ * from an email link.
+ */
+export type VerifyOtpParams =
+  | { email: string; token: string; type: EmailOtpType; captchaToken?: string }
+  | {
+      phone: string
+      token: string
+      type: MobileOtpType
+      captchaToken?: string
+    }
+  | { tokenHash: string; type: EmailOtpType }
+
+/**
+ * Parameters for `resend`. Email types can redirect after confirmation.
+ */
+export type ResendParams =
+  | {
+      type: 'signup' | 'email_change'
+      email: string
+      options?: { emailRedirectTo?: string; captchaToken?: string }
+    }
+  | {
+      type: 'sms' | 'phone_change'
+      phone: string
+      options?: { captchaToken?: string }
+    }
+
 export interface AnonymousSignInOptions {
   data?: Record<string, unknown>
 }
@@ -115,7 +713,8 @@ export type OAuthProvider =
 export interface OAuthSignInOptions {
   redirectTo?: string
   scopes?: string
-  queryParams?: QueryParams
+  /** Extra parameters for the provider, e.g. `{ prompt: 'consent' }`. */
+  queryParams?: Record<string, string | undefined>
 }
 
 export interface OAuthSignInResponse {
@@ -128,60 +727,1014 @@ export interface OAuthSignInResponse {
  */
 export interface MagicLinkPayload {
   email: string
+  code_challenge?: string | null
+  code_challenge_method?: string | null
 }
 
 /**
- * Payload for OTP verification
+ * Parameters read from an auth redirect URL by `parseAuthCallbackUrl`
  */
-export interface VerifyOTPPayload {
-  email: string
-  token: string
-  type: string
+export interface AuthCallbackParams {
+  code: string | null
+  error: {
+    error: string
+    errorCode: string | null
+    description: string | null
+  } | null
 }
 
 /**
- * Generic query parameters object
+ * Payload for sending a one-time password
  */
-export interface QueryParams {
-  [key: string]: string | undefined
+export interface OtpPayload {
+  email?: string
+  phone?: string
+  create_user: boolean
+  data?: Record<string, unknown>
+  channel?: MessagingChannel
+  gotrue_meta_security: Record<string, unknown>
+  code_challenge?: string | null
+  code_challenge_method?: string | null
 }
 
 /**
- * HTTP method types
+ * Payload for OTP verification
  */
-export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+export interface VerifyOTPPayload {
+  email?: string
+  phone?: string
+  token?: string
+  token_hash?: string
+  type: EmailOtpType | MobileOtpType
+  gotrue_meta_security?: Record<string, unknown>
+}
 
 /**
- * Function types for client methods
+ * A single filter value; dates are sent as ISO strings
  */
-export type DoRequestFn = (
-  method: HttpMethod,
-  endpoint: string,
-  body?: unknown,
-  queryParams?: QueryParams
-) => Promise<unknown>
-
-export type AuthRequestFn = (
-  endpoint: string,
-  payload: TokenRequestPayload
-) => Promise<AuthTokenResponse>
+export type QueryScalar = string | number | boolean | Date | null
 
 /**
- * Request configuration
+ * A filter with an explicit operator, e.g. `{ op: 'gte', value: 10 }`.
+ * Lists go with `in`, `cs`, `cd` and `ov`.
  */
-export interface RequestConfig {
-  method: HttpMethod
-  endpoint: string
-  queryParams?: QueryParams
-  body?: unknown
+export interface FilterExpression {
+  op: FilterOperator
+  value: QueryScalar | readonly QueryScalar[] | Record<string, unknown>
+  /** Negates the filter (`not.<op>.<value>`). */
+  not?: boolean
 }
 
 /**
- * Custom error class for Supabase client errors
+ * Value of a column filter. Strings are raw PostgREST filters such as
+ * `eq.1`; other scalars mean `eq`, `null` means `is.null` and arrays mean
+ * `in`.
  */
-export class SupabaseError extends Error {
-  constructor(
-    message: string,
+export type ColumnFilter<Value = unknown> =
+  | string
+  | (unknown extends Value ? QueryScalar : Extract<Value, number | boolean>)
+  | Date
+  | null
+  | readonly QueryScalar[]
+  | FilterExpression
+
+/**
+ * One branch of an `or`/`and` expression: column filters, or a nested
+ * `{ or: [...] }` / `{ and: [...] }`
+ */
+export type LogicCondition<Row = Record<string, unknown>> =
+  | { [Key in ColumnName<Row>]?: ColumnFilter<Row[Key]> }
+  | { or: readonly LogicCondition<Row>[] }
+  | { and: readonly LogicCondition<Row>[] }
+
+/**
+ * A query parameter value. Column filters take the values described by
+ * `ColumnFilter`; `or` and `and` take a raw `(...)` string or a list of
+ * conditions; keywords such as `limit` take strings or numbers.
+ */
+export type QueryParamValue =
+  | ColumnFilter
+  | readonly LogicCondition[]
+  | undefined
+
+/**
+ * Generic query parameters object
+ */
+export interface QueryParams {
+  [key: string]: QueryParamValue
+}
+
+/**
+ * Query parameters for a table: PostgREST keywords plus the table's columns
+ */
+export type TableQueryParams<Row> = {
+  [Key in ColumnName<Row>]?: ColumnFilter<Row[Key]>
+} & {
+  select?: string
+  order?: string
+  limit?: string | number
+  offset?: string | number
+  or?: string | readonly LogicCondition<Row>[]
+  and?: string | readonly LogicCondition<Row>[]
+}
+
+/**
+ * HTTP method types
+ */
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+/**
+ * Per-call options for the core request method
+ */
+export interface RequestOptions {
+  /** Extra headers merged over the defaults (e.g. `Prefer`). */
+  headers?: Record<string, string>
+  /**
+   * Overrides the client `timeout` for this call; `0` or `false` disables
+   * it, e.g. for long-lived event streams.
+   */
+  timeout?: number | false
+  /** Cancels the call; an aborted call rejects with `AbortError`. */
+  signal?: AbortSignal
+  /** Merged over the client retry policy; `false` disables retries. */
+  retry?: RetryOptions | false
+}
+
+/**
+ * Function types for client methods
+ */
+export type DoRequestFn = (
+  method: HttpMethod,
+  endpoint: string,
+  body?: unknown,
+  queryParams?: QueryParams,
+  options?: RequestOptions
+) => Promise<unknown>
+
+/**
+ * Parsed body plus response metadata
+ */
+export interface RequestResult {
+  data: unknown
+  status: number
+  statusText: string
+  headers: Headers
+}
+
+export type DoRequestWithResponseFn = (
+  method: HttpMethod,
+  endpoint: string,
+  body?: unknown,
+  queryParams?: QueryParams,
+  options?: TrackedRequestOptions
+) => Promise<RequestResult>
+
+/**
+ * Request options used inside the client. `onResponse` sees every response
+ * a call receives, so its status can be reported in a result.
+ */
+export interface TrackedRequestOptions extends RequestOptions {
+  onResponse?: (response: Response) => void
+}
+
+/**
+ * Per-call override of the client's `throwOnError`
+ */
+export interface ThrowOnErrorOption<ThrowOnError extends boolean = boolean> {
+  /** `false` resolves to `{ data, error }` instead of throwing. */
+  throwOnError?: ThrowOnError
+}
+
+/**
+ * Errors any call can fail with, besides its service's own error class
+ */
+export type RequestError =
+  | NetworkError
+  | TimeoutError
+  | AbortError
+  | ParseError
+  | SupabaseError
+
+/** Errors from REST (PostgREST) calls. */
+export type RestError = PostgrestError | RequestError
+
+/** Errors from auth and user calls. */
+export type AuthError = AuthApiError | RequestError
+
+/**
+ * A call that succeeded. `data` is what the call resolves to when it
+ * throws on errors; `count` comes from `Content-Range` when reported.
+ */
+export interface SuccessResult<Data> {
+  data: Data
+  error: null
+  status: number
+  statusText: string
+  count: number | null
+}
+
+/**
+ * A call that failed. `status` is `0` when no response arrived, e.g. for
+ * a `NetworkError` or `TimeoutError`.
+ */
+export interface ErrorResult<Error extends SupabaseError = SupabaseError> {
+  data: null
+  error: Error
+  status: number
+  statusText: string
+  count: null
+}
+
+/**
+ * What a call resolves to with `throwOnError: false`. Check `error` to
+ * narrow `data`.
+ */
+export type SupabaseResult<Data, Error extends SupabaseError = SupabaseError> =
+  | SuccessResult<Data>
+  | ErrorResult<Error>
+
+/**
+ * What a call resolves to: its data, or a `SupabaseResult` when
+ * `ThrowOnError` is `false`
+ */
+export type CallResult<
+  Data,
+  ThrowOnError extends boolean,
+  Error extends SupabaseError = SupabaseError
+> = [ThrowOnError] extends [false]
+  ? SupabaseResult<Data, Error>
+  : [ThrowOnError] extends [true]
+    ? Data
+    : Data | SupabaseResult<Data, Error>
+
+/**
+ * Sends an already serialized body with the user token and resolves with
+ * the raw response; non-2xx responses throw `SupabaseError`
+ */
+export type DoFetchFn = (
+  method: HttpMethod,
+  endpoint: string,
+  body?: BodyInit,
+  options?: TrackedRequestOptions
+) => Promise<Response>
+
+/**
+ * Runs a call in the client's error mode, or the one `throwOnError` asks
+ * for. `run` passes `onResponse` down so a result can report the status.
+ */
+export type RespondFn = <
+  Data,
+  Throw extends boolean,
+  Error extends SupabaseError
+>(
+  throwOnError: boolean | undefined,
+  run: (onResponse?: (response: Response) => void) => Promise<Data>
+) => Promise<CallResult<Data, Throw, Error>>
+
+export type AuthRequestFn = (
+  endpoint: string,
+  payload: TokenRequestPayload,
+  options?: RequestOptions
+) => Promise<AuthTokenResponse>
+
+/**
+ * Request configuration
+ */
+export interface RequestConfig {
+  method: HttpMethod
+  endpoint: string
+  queryParams?: QueryParams
+  body?: unknown
+}
+
+/**
+ * PostgREST filter operators
+ */
+export type FilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'like'
+  | 'ilike'
+  | 'match'
+  | 'imatch'
+  | 'is'
+  | 'isdistinct'
+  | 'in'
+  | 'cs'
+  | 'cd'
+  | 'ov'
+  | 'sl'
+  | 'sr'
+  | 'nxr'
+  | 'nxl'
+  | 'adj'
+  | 'fts'
+  | 'plfts'
+  | 'phfts'
+  | 'wfts'
+
+/**
+ * Column names of a row type usable in filters and ordering
+ */
+export type ColumnName<Row> = Extract<keyof Row, string>
+
+export interface OrderOptions {
+  ascending?: boolean
+  nullsFirst?: boolean
+  /** Orders rows of an embedded resource instead of the parent table. */
+  foreignTable?: string
+}
+
+export interface ForeignTableOptions {
+  foreignTable?: string
+}
+
+export interface TextSearchOptions {
+  /** Text search configuration, e.g. `english`. */
+  config?: string
+  type?: 'plain' | 'phrase' | 'websearch'
+}
+
+/**
+ * Awaitable PostgREST request with chainable filters and modifiers.
+ *
+ * Resolves to the parsed response body and rejects with `SupabaseError`
+ * on non-2xx responses, like the other client methods. With
+ * `throwOnError(false)` it resolves to a `SupabaseResult` instead.
+ */
+export interface FilterBuilder<
+  Row,
+  Result,
+  ThrowOnError extends boolean = true
+> extends PromiseLike<CallResult<Result, ThrowOnError, RestError>> {
+  eq<K extends ColumnName<Row>>(column: K, value: Row[K]): this
+  neq<K extends ColumnName<Row>>(column: K, value: Row[K]): this
+  gt<K extends ColumnName<Row>>(column: K, value: Row[K]): this
+  gte<K extends ColumnName<Row>>(column: K, value: Row[K]): this
+  lt<K extends ColumnName<Row>>(column: K, value: Row[K]): this
+  lte<K extends ColumnName<Row>>(column: K, value: Row[K]): this
+  like(column: ColumnName<Row>, pattern: string): this
+  ilike(column: ColumnName<Row>, pattern: string): this
+  likeAllOf(column: ColumnName<Row>, patterns: readonly string[]): this
+  likeAnyOf(column: ColumnName<Row>, patterns: readonly string[]): this
+  ilikeAllOf(column: ColumnName<Row>, patterns: readonly string[]): this
+  ilikeAnyOf(column: ColumnName<Row>, patterns: readonly string[]): this
+  is(column: ColumnName<Row>, value: boolean | null | 'unknown'): this
+  isDistinct<K extends ColumnName<Row>>(column: K, value: Row[K]): this
+  in<K extends ColumnName<Row>>(column: K, values: readonly Row[K][]): this
+  contains(
+    column: ColumnName<Row>,
+    value: string | readonly unknown[] | Record<string, unknown>
+  ): this
+  containedBy(
+    column: ColumnName<Row>,
+    value: string | readonly unknown[] | Record<string, unknown>
+  ): this
+  overlaps(column: ColumnName<Row>, value: string | readonly unknown[]): this
+  rangeGt(column: ColumnName<Row>, range: string): this
+  rangeGte(column: ColumnName<Row>, range: string): this
+  rangeLt(column: ColumnName<Row>, range: string): this
+  rangeLte(column: ColumnName<Row>, range: string): this
+  rangeAdjacent(column: ColumnName<Row>, range: string): this
+  textSearch(
+    column: ColumnName<Row>,
+    query: string,
+    options?: TextSearchOptions
+  ): this
+  /** Adds an `eq` filter for every key of `query`. */
+  match(query: Partial<Row>): this
+  /** Negates a filter, e.g. `not('status', 'in', ['draft'])`. */
+  not(column: ColumnName<Row>, operator: FilterOperator, value: unknown): this
+  /** Adds raw PostgREST logic, e.g. `or('id.eq.1,title.ilike.*x*')`. */
+  or(filters: string, options?: ForeignTableOptions): this
+  and(filters: string, options?: ForeignTableOptions): this
+  /** Escape hatch for any column (including embedded paths) and operator. */
+  filter(column: string, operator: FilterOperator, value: unknown): this
+  order(column: ColumnName<Row>, options?: OrderOptions): this
+  limit(count: number, options?: ForeignTableOptions): this
+  range(from: number, to: number, options?: ForeignTableOptions): this
+  /** Cancels the query when the signal aborts. */
+  abortSignal(signal: AbortSignal): this
+  /** Overrides the client timeout for this query, in milliseconds. */
+  timeout(milliseconds: number): this
+  /**
+   * Overrides the client's `throwOnError` for this query; `false` resolves
+   * to `{ data, error, status, statusText, count }`.
+   */
+  throwOnError<Throw extends boolean = true>(
+    value?: Throw
+  ): FilterBuilder<Row, Result, Throw>
+  /**
+   * Resolves to one row instead of an array. Rejects with a `PGRST116`
+   * `PostgrestError` (status 406) when no row or several rows match.
+   */
+  single(): FilterBuilder<Row, SingleResult<Result>, ThrowOnError>
+  /**
+   * Like `single()`, but resolves to `null` when no row matches. Several
+   * rows still reject.
+   */
+  maybeSingle(): FilterBuilder<Row, SingleResult<Result> | null, ThrowOnError>
+  /** Resolves to the rows as CSV text. */
+  csv(): FilterBuilder<Row, string, ThrowOnError>
+  /**
+   * Resolves to a GeoJSON `FeatureCollection`; the rows need a PostGIS
+   * geometry column.
+   */
+  geojson(): FilterBuilder<Row, GeoJsonFeatureCollection, ThrowOnError>
+  /**
+   * Resolves to the Postgres query plan instead of the rows. Needs
+   * `db-plan-enabled` in the PostgREST configuration.
+   */
+  explain<Format extends ExplainFormat = 'text'>(
+    options?: ExplainOptions<Format>
+  ): FilterBuilder<Row, ExplainResult<Format>, ThrowOnError>
+  /**
+   * Picks the returned columns; on an insert, update or delete it also
+   * returns the affected rows.
+   */
+  select(
+    columns?: string
+  ): FilterBuilder<Row, Result extends null ? Row[] : Result, ThrowOnError>
+}
+
+/**
+ * One row of a query result: the element type of an array result
+ */
+export type SingleResult<Result> = Result extends readonly (infer Item)[]
+  ? Item
+  : Result
+
+export type ExplainFormat = 'text' | 'json'
+
+/**
+ * Options for `explain()`
+ */
+export interface ExplainOptions<Format extends ExplainFormat = ExplainFormat> {
+  /** Runs the query and reports actual timings (`EXPLAIN ANALYZE`). */
+  analyze?: boolean
+  /** Adds output columns and other details to the plan. */
+  verbose?: boolean
+  /** `text` (default) resolves to a string, `json` to the parsed plan. */
+  format?: Format
+}
+
+/**
+ * Plan returned by `explain()` in the requested format
+ */
+export type ExplainResult<Format extends ExplainFormat> = Format extends 'json'
+  ? Record<string, unknown>[]
+  : string
+
+/**
+ * Response of `geojson()`
+ */
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection'
+  features: {
+    type: 'Feature'
+    geometry: Record<string, unknown> | null
+    properties: Record<string, unknown>
+  }[]
+}
+
+/**
+ * Entry point returned by `client.from(table)`.
+ */
+export interface QueryBuilder<
+  Row,
+  Insert = Partial<Row>,
+  Update = Partial<Row>,
+  ThrowOnError extends boolean = true
+> {
+  select(columns?: string): FilterBuilder<Row, Row[], ThrowOnError>
+  insert(values: Insert | Insert[]): FilterBuilder<Row, null, ThrowOnError>
+  upsert(
+    values: Insert | Insert[],
+    options?: Pick<UpsertOptions<Row>, 'onConflict' | 'ignoreDuplicates'>
+  ): FilterBuilder<Row, null, ThrowOnError>
+  update(values: Update): FilterBuilder<Row, null, ThrowOnError>
+  delete(): FilterBuilder<Row, null, ThrowOnError>
+}
+
+export type CountOption = 'exact' | 'planned' | 'estimated'
+
+/**
+ * Options for `rpc()`
+ */
+export interface RpcOptions {
+  /** Calls the function with GET, passing args in the query string. */
+  get?: boolean
+  /** Calls the function with HEAD; no data is returned. */
+  head?: boolean
+  /** Asks PostgREST to count the result rows. */
+  count?: CountOption
+}
+
+/**
+ * Result of a query that asked for a row count
+ */
+export interface CountedResult<Data> {
+  data: Data
+  /** Total rows from `Content-Range`, or `null` when not reported. */
+  count: number | null
+}
+
+/**
+ * What an `rpc()` call resolves to for the given options
+ */
+export type RpcResult<Returns, Options extends RpcOptions> = Options extends {
+  count: CountOption
+}
+  ? CountedResult<Options extends { head: true } ? null : Returns>
+  : Options extends { head: true }
+    ? null
+    : Returns
+
+/**
+ * Inclusive, zero-based row range from `Content-Range`
+ */
+export interface PageRange {
+  from: number
+  to: number
+}
+
+/**
+ * One page of rows with its position and the total count when requested
+ */
+export interface PageResult<Row> {
+  data: Row[]
+  /** Total rows when a `count` was requested and reported, else `null`. */
+  count: number | null
+  /** Rows returned, or `null` when the page is empty. */
+  range: PageRange | null
+}
+
+/**
+ * Options for `getPage()`
+ */
+export interface PageOptions<Row> extends RequestOptions {
+  /** Sends `Prefer: count=<option>` so the total is reported. */
+  count?: CountOption
+  /** Filters, ordering and column selection for the table. */
+  query?: TableQueryParams<Row>
+}
+
+/**
+ * Options for `paginate()`
+ */
+export interface PaginateOptions<Row> extends PageOptions<Row> {
+  /** Rows per page. Defaults to 1000. */
+  pageSize?: number
+  /**
+   * Walks by keyset on a unique, non-null column instead of by offset,
+   * which stays fast and consistent on large or changing tables.
+   */
+  cursor?: ColumnName<Row> | { column: ColumnName<Row>; ascending?: boolean }
+}
+
+/**
+ * `Prefer: return=` value for writes. `headers-only` returns no body but
+ * lets PostgREST send a `Location` header.
+ */
+export type ReturnPreference = 'minimal' | 'representation' | 'headers-only'
+
+/**
+ * Options for `post()`, `put()` and `patch()`
+ */
+export interface WriteOptions extends RequestOptions {
+  /**
+   * Sends `Prefer: return=<value>`. `representation` resolves to the
+   * written rows, which needs SELECT permission on them. Unset, no `Prefer`
+   * header is sent and PostgREST returns no body.
+   */
+  returning?: ReturnPreference
+}
+
+/**
+ * What `post()`, `put()` and `patch()` resolve to: the written rows with
+ * `returning: 'representation'`, else whatever body PostgREST sent
+ */
+export type WriteResult<Row, Options extends WriteOptions> = Options extends {
+  returning: 'representation'
+}
+  ? Row[]
+  : unknown
+
+/**
+ * Options for `insert()`
+ */
+export interface InsertOptions<Row> extends RequestOptions {
+  /** Defaults to `representation`, resolving to the inserted rows. */
+  returning?: ReturnPreference
+  /** Reports how many rows were written. */
+  count?: CountOption
+  /** Columns of the returned rows. */
+  select?: string
+  /**
+   * When `false`, columns missing from some rows of a bulk insert take their
+   * default value instead of `NULL`. Defaults to `true`.
+   */
+  defaultToNull?: boolean
+  /** Columns sent for bulk inserts. Defaults to every key found in the rows. */
+  columns?: ColumnName<Row>[]
+  /** Rows per request for bulk inserts; a positive integer. Defaults to 1000. */
+  chunkSize?: number
+}
+
+/**
+ * Options for `upsert()`
+ */
+export interface UpsertOptions<Row> extends InsertOptions<Row> {
+  /** Unique columns that identify a duplicate. Defaults to the primary key. */
+  onConflict?: ColumnName<Row> | ColumnName<Row>[]
+  /** Skips duplicate rows instead of merging them. */
+  ignoreDuplicates?: boolean
+}
+
+/**
+ * Aggregated result of a write, across every chunk it was split into
+ */
+export interface MutationResult<Data> {
+  data: Data
+  /** Rows written when `count` was requested, else `null`. */
+  count: number | null
+  /** `Location` headers returned by PostgREST. */
+  locations: string[]
+}
+
+export type InsertResult<
+  Row,
+  Options extends InsertOptions<Row>
+> = MutationResult<
+  Options extends { returning: 'minimal' | 'headers-only' } ? null : Row[]
+>
+
+/**
+ * A storage bucket
+ */
+export interface Bucket {
+  id: string
+  name: string
+  owner?: string
+  public: boolean
+  file_size_limit?: number | null
+  allowed_mime_types?: string[] | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Settings for `createBucket()` and `updateBucket()`
+ */
+export interface BucketOptions {
+  /** Whether objects can be read through public URLs. */
+  public?: boolean
+  /** Maximum object size in bytes, or a string such as `'20MB'`. */
+  fileSizeLimit?: number | string | null
+  /** Accepted MIME types; wildcards such as `image/*` are allowed. */
+  allowedMimeTypes?: string[] | null
+}
+
+/**
+ * An object (or folder placeholder) returned by `list()` and `remove()`
+ */
+export interface FileObject {
+  name: string
+  id: string | null
+  bucket_id?: string
+  owner?: string
+  created_at: string | null
+  updated_at: string | null
+  last_accessed_at: string | null
+  metadata: Record<string, unknown> | null
+}
+
+export type UploadBody =
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | ReadableStream<Uint8Array>
+  | string
+
+/**
+ * Options for `upload()` and `update()`
+ */
+export interface UploadOptions extends RequestOptions {
+  /** Overwrites an existing object instead of failing. Defaults to `false`. */
+  upsert?: boolean
+  /**
+   * Defaults to the Blob's type, or `application/octet-stream` for other
+   * bodies.
+   */
+  contentType?: string
+  /** `Cache-Control` max-age in seconds. Defaults to 3600. */
+  cacheControl?: number | string
+}
+
+export interface UploadResult {
+  id?: string
+  /** Object path within the bucket. */
+  path: string
+  /** Path including the bucket name. */
+  fullPath: string
+}
+
+/**
+ * Options for `list()`
+ */
+export interface ListOptions extends RequestOptions {
+  /** Maximum entries. Defaults to 100. */
+  limit?: number
+  offset?: number
+  /** Only entries whose name contains this string. */
+  search?: string
+  /** Defaults to `name` ascending. */
+  sortBy?: {
+    column: 'name' | 'created_at' | 'updated_at' | 'last_accessed_at'
+    order?: 'asc' | 'desc'
+  }
+}
+
+/**
+ * Options for `createSignedUrl()`, `createSignedUrls()` and `getPublicUrl()`
+ */
+export interface UrlOptions {
+  /**
+   * Makes the URL download as an attachment; a string sets the file name.
+   */
+  download?: boolean | string
+}
+
+export interface SignedUrl {
+  path: string | null
+  signedUrl: string | null
+  error: string | null
+}
+
+export interface SignedUploadUrl {
+  signedUrl: string
+  token: string
+  path: string
+}
+
+export type ResumableUploadBody = Blob | ArrayBuffer | ArrayBufferView
+
+/**
+ * Options for `createResumableUpload()`
+ */
+export interface ResumableUploadOptions {
+  /**
+   * Bytes per PATCH request; a positive integer. Defaults to 6 MB, the
+   * chunk size Supabase Storage expects.
+   */
+  chunkSize?: number
+  /** Defaults to the Blob's type, or `application/octet-stream`. */
+  contentType?: string
+  /** `Cache-Control` max-age in seconds. Defaults to 3600. */
+  cacheControl?: number | string
+  /** Overwrites an existing object instead of failing. Defaults to `false`. */
+  upsert?: boolean
+  /** Called after the upload is located and after every chunk. */
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void
+  /**
+   * Remembers upload URLs by fingerprint, so a new upload of the same file
+   * (e.g. after a restart) resumes instead of starting over. Any
+   * `SessionStorage` adapter works.
+   */
+  urlStorage?: SessionStorage
+  /**
+   * Key for `urlStorage`. Defaults to bucket, path and size, plus the type
+   * of a Blob and the name and modification time of a File.
+   */
+  fingerprint?: string
+}
+
+/**
+ * How `start()` or `resume()` settled: the upload finished, or `pause()`
+ * stopped it
+ */
+export type ResumableUploadStatus = 'completed' | 'paused'
+
+/**
+ * Request body for `functions.invoke()`. Plain objects and arrays are sent
+ * as JSON; strings as text; other `BodyInit` values as they are.
+ */
+export type FunctionBody =
+  | string
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | FormData
+  | URLSearchParams
+  | ReadableStream<Uint8Array>
+  | Record<string, unknown>
+  | unknown[]
+
+export type FunctionRegion =
+  | 'any'
+  | 'ap-northeast-1'
+  | 'ap-northeast-2'
+  | 'ap-south-1'
+  | 'ap-southeast-1'
+  | 'ap-southeast-2'
+  | 'ca-central-1'
+  | 'eu-central-1'
+  | 'eu-west-1'
+  | 'eu-west-2'
+  | 'eu-west-3'
+  | 'sa-east-1'
+  | 'us-east-1'
+  | 'us-west-1'
+  | 'us-west-2'
+
+/**
+ * Options for `functions.invoke()`
+ */
+export interface FunctionInvokeOptions extends RequestOptions {
+  body?: FunctionBody
+  /** Defaults to `POST`. */
+  method?: Exclude<HttpMethod, 'HEAD'>
+  /** Runs the function in this region instead of the closest one. */
+  region?: FunctionRegion
+  /**
+   * Resolves to the response body stream instead of parsing it. Event
+   * streams (`text/event-stream`) are always returned as streams.
+   */
+  stream?: boolean
+}
+
+/**
+ * The part of the WebSocket API the realtime client uses. The global
+ * `WebSocket` and the `ws` package both satisfy it.
+ */
+export interface RealtimeSocket {
+  readonly readyState: number
+  onopen: ((event: Event) => void) | null
+  onmessage: ((event: MessageEvent) => void) | null
+  onclose: ((event: CloseEvent) => void) | null
+  onerror: ((event: Event) => void) | null
+  send(data: string): void
+  close(code?: number, reason?: string): void
+}
+
+export type RealtimeSocketConstructor = new (url: string) => RealtimeSocket
+
+/**
+ * Options for the realtime connection
+ */
+export interface RealtimeOptions {
+  /** Defaults to the global `WebSocket`; required on Node.js before 22. */
+  WebSocket?: RealtimeSocketConstructor
+  /** Defaults to 25 seconds. A heartbeat left unanswered closes the socket. */
+  heartbeatIntervalMs?: number
+  /** How long joins and acknowledged pushes wait for a reply. Defaults to 10 s. */
+  timeout?: number
+  /**
+   * Delay before reconnect attempt `tries` (starting at 1). Defaults to 1,
+   * 2, 5, then every 10 seconds.
+   */
+  reconnectAfterMs?: (tries: number) => number
+  /** Extra query parameters for the socket URL. */
+  params?: Record<string, string>
+}
+
+export interface RealtimeChannelOptions {
+  /** `self` echoes your own broadcasts; `ack` waits for the server. */
+  broadcast?: { self?: boolean; ack?: boolean }
+  /** Identifies this client in presence state. Defaults to a server id. */
+  presence?: { key?: string }
+  /** Requires a Realtime Authorization policy to join. */
+  private?: boolean
+}
+
+export type RealtimeChannelState =
+  | 'closed'
+  | 'joining'
+  | 'joined'
+  | 'errored'
+  | 'leaving'
+
+export type RealtimeSubscribeStatus =
+  | 'SUBSCRIBED'
+  | 'CHANNEL_ERROR'
+  | 'TIMED_OUT'
+  | 'CLOSED'
+
+/** How an acknowledged push settled. */
+export type RealtimePushStatus = 'ok' | 'error' | 'timed out'
+
+export type PostgresChangesEvent = '*' | 'INSERT' | 'UPDATE' | 'DELETE'
+
+export interface PostgresChangesFilter {
+  event: PostgresChangesEvent
+  schema: string
+  table?: string
+  /** A PostgREST-style filter such as `id=eq.1`. */
+  filter?: string
+}
+
+export interface PostgresChangesPayload<Row = Record<string, unknown>> {
+  schema: string
+  table: string
+  commit_timestamp: string
+  eventType: Exclude<PostgresChangesEvent, '*'>
+  /** The new row; empty for deletes. */
+  new: Partial<Row>
+  /** The old row (primary key only unless REPLICA IDENTITY FULL). */
+  old: Partial<Row>
+  errors: string[] | null
+}
+
+export interface BroadcastMessage<Payload = unknown> {
+  type: 'broadcast'
+  event: string
+  payload: Payload
+}
+
+export interface PresenceMeta {
+  presence_ref: string
+  [key: string]: unknown
+}
+
+/** Tracked presences by key. */
+export type PresenceState = Record<string, PresenceMeta[]>
+
+export interface PresenceJoin {
+  event: 'join'
+  key: string
+  currentPresences: PresenceMeta[]
+  newPresences: PresenceMeta[]
+}
+
+export interface PresenceLeave {
+  event: 'leave'
+  key: string
+  currentPresences: PresenceMeta[]
+  leftPresences: PresenceMeta[]
+}
+
+/**
+ * A Realtime channel from `client.channel(name)`
+ */
+export interface RealtimeChannel {
+  /** `realtime:<name>` */
+  readonly topic: string
+  readonly state: RealtimeChannelState
+  /** Listens to database changes; register before `subscribe()`. */
+  on<Row = Record<string, unknown>>(
+    type: 'postgres_changes',
+    filter: PostgresChangesFilter,
+    callback: (payload: PostgresChangesPayload<Row>) => void
+  ): RealtimeChannel
+  /** Listens to broadcasts of one event, or every event with `*`. */
+  on<Payload = unknown>(
+    type: 'broadcast',
+    filter: { event: string },
+    callback: (message: BroadcastMessage<Payload>) => void
+  ): RealtimeChannel
+  /** Fires after the presence state changed. */
+  on(
+    type: 'presence',
+    filter: { event: 'sync' },
+    callback: () => void
+  ): RealtimeChannel
+  on(
+    type: 'presence',
+    filter: { event: 'join' },
+    callback: (change: PresenceJoin) => void
+  ): RealtimeChannel
+  on(
+    type: 'presence',
+    filter: { event: 'leave' },
+    callback: (change: PresenceLeave) => void
+  ): RealtimeChannel
+  /**
+   * Joins the channel, connecting the socket if needed. The callback gets
+   * every status change, including rejoins after a reconnect.
+   */
+  subscribe(
+    callback?: (status: RealtimeSubscribeStatus, error?: Error) => void
+  ): RealtimeChannel
+  /** Broadcasts to the channel; sent once joined. */
+  send(message: BroadcastMessage): Promise<RealtimePushStatus>
+  /** Shares this client's state with the channel's presence. */
+  track(state: Record<string, unknown>): Promise<RealtimePushStatus>
+  untrack(): Promise<RealtimePushStatus>
+  presenceState(): PresenceState
+  /** Leaves the channel. */
+  unsubscribe(): Promise<RealtimePushStatus>
+}
+
+/**
+ * Custom error class for Supabase client errors
+ */
+export class SupabaseError extends Error {
+  constructor(
+    message: string,
     public statusCode?: number,
     public response?: unknown
   ) {
@@ -189,3 +1742,182 @@ export class SupabaseError extends Error {
     this.name = 'SupabaseError'
   }
 }
+
+// Reads a string field from a parsed error body
+function errorField(response: unknown, key: string): string | null {
+  if (!response || typeof response !== 'object') {
+    return null
+  }
+  const value = (response as Record<string, unknown>)[key]
+  return typeof value === 'string' ? value : null
+}
+
+/**
+ * Thrown for failed REST (PostgREST) requests. `code` is the PostgREST or
+ * Postgres error code, e.g. `PGRST116` or `23505`.
+ */
+export class PostgrestError extends SupabaseError {
+  code: string | null
+  details: string | null
+  hint: string | null
+
+  constructor(message: string, statusCode: number, response?: unknown) {
+    super(message, statusCode, response)
+    this.name = 'PostgrestError'
+    this.code = errorField(response, 'code')
+    this.details = errorField(response, 'details')
+    this.hint = errorField(response, 'hint')
+  }
+}
+
+/** Why GoTrue rejected a password as `weak_password`. */
+export type WeakPasswordReason =
+  | 'length'
+  | 'characters'
+  | 'pwned'
+  | (string & {})
+
+/**
+ * Thrown for failed Auth (GoTrue) requests. `code` is GoTrue's
+ * `error_code`, e.g. `invalid_credentials` or `weak_password`; `reasons`
+ * lists why a password was too weak.
+ */
+export class AuthApiError extends SupabaseError {
+  code: string | null
+  reasons: WeakPasswordReason[]
+
+  constructor(message: string, statusCode: number, response?: unknown) {
+    super(message, statusCode, response)
+    this.name = 'AuthApiError'
+    // OAuth-style endpoints report the code as `error`
+    this.code =
+      errorField(response, 'error_code') ?? errorField(response, 'error')
+    const weakPassword = (response as { weak_password?: { reasons?: unknown } })
+      ?.weak_password
+    this.reasons = Array.isArray(weakPassword?.reasons)
+      ? (weakPassword.reasons as WeakPasswordReason[])
+      : []
+  }
+}
+
+/**
+ * Thrown when a request fails before any response arrives, e.g. on DNS,
+ * connection or CORS failures. `cause` holds the error from `fetch`.
+ */
+export class NetworkError extends SupabaseError {
+  constructor(cause: unknown) {
+    super(ERROR_MESSAGES.NETWORK_ERROR)
+    this.name = 'NetworkError'
+    this.cause = cause
+  }
+}
+
+/**
+ * Thrown when a response that should be JSON can't be parsed. `response`
+ * holds the raw body text.
+ */
+export class ParseError extends SupabaseError {
+  constructor(statusCode: number | undefined, text: string, cause: unknown) {
+    super(ERROR_MESSAGES.PARSE_ERROR, statusCode, text)
+    this.name = 'ParseError'
+    this.cause = cause
+  }
+}
+
+/**
+ * Thrown when a request gets no response within its timeout
+ */
+export class TimeoutError extends SupabaseError {
+  constructor(public timeout: number) {
+    super(`Request timed out after ${timeout}ms`)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * Thrown when an Edge Function responds with a non-2xx status. `response`
+ * holds the parsed body the function returned.
+ */
+export class FunctionsHttpError extends SupabaseError {
+  constructor(
+    public functionName: string,
+    statusCode: number,
+    response?: unknown
+  ) {
+    super(
+      `Edge Function ${functionName} returned ${statusCode}`,
+      statusCode,
+      response
+    )
+    this.name = 'FunctionsHttpError'
+  }
+}
+
+/**
+ * Thrown when the Edge Functions relay fails to reach the function, so the
+ * function itself never ran
+ */
+export class FunctionsRelayError extends SupabaseError {
+  constructor(
+    public functionName: string,
+    statusCode: number,
+    response?: unknown
+  ) {
+    super(
+      `Edge Functions relay failed for ${functionName}: ${statusCode}`,
+      statusCode,
+      response
+    )
+    this.name = 'FunctionsRelayError'
+  }
+}
+
+/**
+ * Thrown when a request is cancelled through its `AbortSignal`
+ */
+export class AbortError extends SupabaseError {
+  constructor() {
+    super('Request was aborted')
+    this.name = 'AbortError'
+  }
+}
+
+export function isSupabaseError(error: unknown): error is SupabaseError {
+  return error instanceof SupabaseError
+}
+
+export function isPostgrestError(error: unknown): error is PostgrestError {
+  return error instanceof PostgrestError
+}
+
+export function isAuthApiError(error: unknown): error is AuthApiError {
+  return error instanceof AuthApiError
+}
+
+export function isNetworkError(error: unknown): error is NetworkError {
+  return error instanceof NetworkError
+}
+
+export function isTimeoutError(error: unknown): error is TimeoutError {
+  return error instanceof TimeoutError
+}
+
+export function isParseError(error: unknown): error is ParseError {
+  return error instanceof ParseError
+}
+
+export function isAbortError(error: unknown): error is AbortError {
+  return error instanceof AbortError
+}
+
+export function isFunctionsHttpError(
+  error: unknown
+): error is FunctionsHttpError {
+  return error instanceof FunctionsHttpError
+}
+
+export function isFunctionsRelayError(
+  error: unknown
+): error is FunctionsRelayError {
+  return error instanceof FunctionsRelayError
+}
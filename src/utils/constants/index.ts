@@ -2,6 +2,11 @@
  * Constants for Supabase API paths and configuration
  */
 
+// Library version, kept in sync with package.json
+export const VERSION = '0.2.7'
+// Sent as `x-client-info` so requests can be attributed to this client
+export const CLIENT_INFO = `supabase-ts-rest/${VERSION}`
+
 // REST API paths from Supabase
 export const REST_API_PATH = '/rest/v1'
 export const AUTH_API_PATH = '/auth/v1'
@@ -10,10 +15,19 @@ export const SIGNUP_API_PATH = `${AUTH_API_PATH}/signup`
 export const MAGIC_LINK_API_PATH = `${AUTH_API_PATH}/magiclink`
 export const RECOVER_API_PATH = `${AUTH_API_PATH}/recover`
 export const VERIFY_API_PATH = `${AUTH_API_PATH}/verify`
+export const OTP_API_PATH = `${AUTH_API_PATH}/otp`
+export const RESEND_API_PATH = `${AUTH_API_PATH}/resend`
 export const USER_API_PATH = `${AUTH_API_PATH}/user`
 export const LOGOUT_API_PATH = `${AUTH_API_PATH}/logout`
 export const INVITE_API_PATH = `${AUTH_API_PATH}/invite`
 export const RESET_API_PATH = `${AUTH_API_PATH}/reset`
+export const AUTHORIZE_API_PATH = `${AUTH_API_PATH}/authorize`
+export const JWKS_API_PATH = `${AUTH_API_PATH}/.well-known/jwks.json`
+export const FACTORS_API_PATH = `${AUTH_API_PATH}/factors`
+export const ADMIN_API_PATH = `${AUTH_API_PATH}/admin`
+export const STORAGE_API_PATH = '/storage/v1'
+export const FUNCTIONS_API_PATH = '/functions/v1'
+export const REALTIME_API_PATH = '/realtime/v1'
 
 // Error messages
 export const ERROR_MESSAGES = {
@@ -21,5 +35,18 @@ export const ERROR_MESSAGES = {
   REQUEST_FAILED: 'Request failed',
   INVALID_CONFIG: 'Invalid client configuration',
   NETWORK_ERROR: 'Network error occurred',
-  PARSE_ERROR: 'Failed to parse response'
+  PARSE_ERROR: 'Failed to parse response',
+  NO_SESSION: 'No active session',
+  MISSING_CODE_VERIFIER: 'No PKCE code verifier found for this code exchange',
+  ADMIN_KEY_REQUIRED:
+    'Admin methods need a secret or service_role key, not a publishable key',
+  INVALID_JWT: 'Invalid JWT',
+  JWT_EXPIRED: 'JWT has expired',
+  INVALID_JWT_SIGNATURE: 'Invalid JWT signature',
+  UNSUPPORTED_JWT_ALGORITHM: 'Unsupported JWT algorithm',
+  JWKS_KEY_NOT_FOUND: 'No JWKS key matches the JWT',
+  INVALID_QUERY_PARAM: 'Unsupported query parameter value',
+  INVALID_CHUNK_SIZE: 'chunkSize must be a positive integer',
+  MISSING_CURSOR_VALUE:
+    'Keyset pagination needs the cursor column, non-null, in every row'
 } as const
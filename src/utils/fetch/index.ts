@@ -0,0 +1,293 @@
+import type {
+  Fetch,
+  HttpMethod,
+  Interceptor,
+  InterceptorNext,
+  RetryOptions
+} from '../../types/index.js'
+import {
+  AbortError,
+  NetworkError,
+  ParseError,
+  TimeoutError
+} from '../../types/index.js'
+
+/**
+ * Options for a single `fetchWithPolicy` call.
+ */
+export interface FetchPolicy {
+  /** Milliseconds each attempt may take, until its body has been read. */
+  timeout?: number
+  /** Cancels the request, including any pending retry. */
+  signal?: AbortSignal
+  /** Retry policy; no retries when omitted. */
+  retry?: RetryOptions
+  /** Defaults to the global `fetch`, looked up on each call. */
+  fetch?: Fetch
+}
+
+const DEFAULT_RETRY = {
+  retries: 0,
+  baseDelay: 300,
+  maxDelay: 10_000,
+  methods: ['GET', 'HEAD', 'PUT', 'DELETE'] as HttpMethod[],
+  statuses: [408, 429, 500, 502, 503, 504]
+}
+
+/**
+ * Parses a `Retry-After` header (seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between zero and
+ * `baseDelay * 2^attempt`, capped at `maxDelay`.
+ */
+export function computeBackoff(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number
+): number {
+  const ceiling = Math.min(maxDelay, baseDelay * 2 ** attempt)
+  return Math.random() * ceiling
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new AbortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Statuses whose responses cannot carry a body
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304]
+
+/**
+ * Passes the body through a stream that calls `release` once it has been
+ * read, cancelled or failed, and fails with `abortError()` when `signal`
+ * fires first. Keeps a timeout armed while the body is still arriving.
+ */
+function releaseAfterBody(
+  response: Response,
+  signal: AbortSignal,
+  release: () => void,
+  abortError: () => Error
+): Response {
+  if (!response.body || NULL_BODY_STATUSES.includes(response.status)) {
+    release()
+    return response
+  }
+
+  const reader = response.body.getReader()
+  let stream: ReadableStreamDefaultController<Uint8Array> | undefined
+  const onAbort = () => {
+    finish()
+    stream?.error(abortError())
+    reader.cancel().catch(() => {})
+  }
+  const finish = () => {
+    signal.removeEventListener('abort', onAbort)
+    release()
+  }
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      stream = controller
+      if (signal.aborted) {
+        onAbort()
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true })
+      }
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          finish()
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        finish()
+        controller.error(signal.aborted ? abortError() : error)
+      }
+    },
+    cancel(reason) {
+      finish()
+      return reader.cancel(reason)
+    }
+  })
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  })
+}
+
+/**
+ * Runs one fetch attempt, aborting it after `timeout` milliseconds or when
+ * the caller's signal fires. Both stay armed until the response body has
+ * been read, so a body that stalls after the headers still times out.
+ */
+async function attempt(
+  url: string,
+  init: RequestInit,
+  policy: FetchPolicy
+): Promise<Response> {
+  const { timeout, signal } = policy
+  const fetchImpl = policy.fetch ?? globalThis.fetch
+  if (signal?.aborted) {
+    throw new AbortError()
+  }
+  if (timeout === undefined && !signal) {
+    try {
+      return await fetchImpl(url, init)
+    } catch (error) {
+      throw new NetworkError(error)
+    }
+  }
+
+  const controller = new AbortController()
+  let timedOut = false
+  const timer =
+    timeout === undefined
+      ? undefined
+      : setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, timeout)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+  const release = () => {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+  const abortError = () =>
+    timedOut ? new TimeoutError(timeout as number) : new AbortError()
+
+  let response: Response
+  try {
+    response = await fetchImpl(url, { ...init, signal: controller.signal })
+  } catch (error) {
+    release()
+    if (timedOut || signal?.aborted) {
+      throw abortError()
+    }
+    throw new NetworkError(error)
+  }
+  return releaseAfterBody(response, controller.signal, release, abortError)
+}
+
+/**
+ * Fetches with an optional per-attempt timeout, cancellation and retries.
+ *
+ * Only methods listed in the retry policy are retried (idempotent ones by
+ * default), after network errors, timeouts or a retryable status. 429 and
+ * 503 responses honor `Retry-After`; other delays use exponential backoff
+ * with jitter. Cancellation is never retried.
+ */
+export async function fetchWithPolicy(
+  url: string,
+  init: RequestInit,
+  policy: FetchPolicy = {}
+): Promise<Response> {
+  const retry = { ...DEFAULT_RETRY, ...policy.retry }
+  const method = (init.method ?? 'GET') as HttpMethod
+  // A stream body is consumed by the first attempt and cannot be resent
+  const streamed = init.body instanceof ReadableStream
+  const retries =
+    retry.methods.includes(method) && !streamed ? retry.retries : 0
+  if (streamed) {
+    // Required by fetch implementations that support streaming uploads
+    Object.assign(init, { duplex: 'half' })
+  }
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    const canRetry = attemptNumber < retries
+    let response: Response
+    try {
+      response = await attempt(url, init, policy)
+    } catch (error) {
+      if (!canRetry || error instanceof AbortError) {
+        throw error
+      }
+      await sleep(
+        computeBackoff(attemptNumber, retry.baseDelay, retry.maxDelay),
+        policy.signal
+      )
+      continue
+    }
+
+    if (!canRetry || !retry.statuses.includes(response.status)) {
+      return response
+    }
+
+    const retryAfter =
+      response.status === 429 || response.status === 503
+        ? parseRetryAfter(response.headers.get('Retry-After'))
+        : undefined
+    // Release the connection before waiting
+    await response.body?.cancel()
+    await sleep(
+      retryAfter ??
+        computeBackoff(attemptNumber, retry.baseDelay, retry.maxDelay),
+      policy.signal
+    )
+  }
+}
+
+/**
+ * Parses a JSON body, failing with `ParseError` instead of a bare
+ * `SyntaxError`.
+ */
+export function parseJson<T>(text: string, statusCode?: number): T {
+  try {
+    return JSON.parse(text) as T
+  } catch (error) {
+    throw new ParseError(statusCode, text, error)
+  }
+}
+
+/**
+ * Reads a response body that should be JSON.
+ */
+export async function readJson<T>(response: Response): Promise<T> {
+  return parseJson<T>(await response.text(), response.status)
+}
+
+/**
+ * Chains interceptors in order around a final step, so the first
+ * interceptor sees the request first and the response last.
+ */
+export function composeInterceptors(
+  interceptors: Interceptor[],
+  final: InterceptorNext
+): InterceptorNext {
+  return interceptors.reduceRight<InterceptorNext>(
+    (next, interceptor) => (request) => interceptor(request, next),
+    final
+  )
+}
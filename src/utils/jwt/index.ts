@@ -0,0 +1,190 @@
+import type {
+  DecodedJwt,
+  JsonWebKeySet,
+  JwtHeader,
+  JwtPayload,
+  JwtVerificationKey
+} from '../../types/index.js'
+import { SupabaseError } from '../../types/index.js'
+import { ERROR_MESSAGES } from '../constants/index.js'
+
+// Import and verify parameters for each supported `alg`
+const ALGORITHMS: Record<
+  string,
+  {
+    importParams: RsaHashedImportParams | EcKeyImportParams | HmacImportParams
+    verifyParams: AlgorithmIdentifier | EcdsaParams
+  }
+> = {
+  ES256: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' }
+  },
+  RS256: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verifyParams: 'RSASSA-PKCS1-v1_5'
+  },
+  HS256: {
+    importParams: { name: 'HMAC', hash: 'SHA-256' },
+    verifyParams: 'HMAC'
+  }
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+function decodeJson(value: string): Record<string, unknown> {
+  const parsed: unknown = JSON.parse(
+    new TextDecoder().decode(base64UrlDecode(value))
+  )
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new SupabaseError(ERROR_MESSAGES.INVALID_JWT)
+  }
+  return parsed as Record<string, unknown>
+}
+
+/**
+ * Splits a JWT into its header, claims and signature without verifying it.
+ * Use this to read the user id, role or `aal` of a token you already trust;
+ * use `verifyJwt` for tokens from elsewhere.
+ *
+ * @throws SupabaseError when the token is not a well-formed JWT.
+ *
+ * @example
+ * ```typescript
+ * const { payload } = decodeJwt(client.token!)
+ * console.log(payload.sub, payload.role, payload.aal)
+ * ```
+ */
+export function decodeJwt(jwt: string): DecodedJwt {
+  const parts = jwt.split('.')
+  if (parts.length !== 3) {
+    throw new SupabaseError(ERROR_MESSAGES.INVALID_JWT)
+  }
+
+  try {
+    const header = decodeJson(parts[0])
+    if (typeof header.alg !== 'string') {
+      throw new SupabaseError(ERROR_MESSAGES.INVALID_JWT)
+    }
+    return {
+      header: header as JwtHeader,
+      payload: decodeJson(parts[1]) as JwtPayload,
+      signature: base64UrlDecode(parts[2]),
+      signingInput: `${parts[0]}.${parts[1]}`
+    }
+  } catch {
+    throw new SupabaseError(ERROR_MESSAGES.INVALID_JWT)
+  }
+}
+
+/**
+ * Seconds until a token expires: negative once it has expired, `null` when
+ * it has no `exp` claim.
+ *
+ * @param jwt - An encoded JWT or its decoded claims.
+ * @param now - Current time in milliseconds. Defaults to `Date.now()`.
+ */
+export function getJwtExpiresIn(
+  jwt: string | JwtPayload,
+  now: number = Date.now()
+): number | null {
+  const { exp } = typeof jwt === 'string' ? decodeJwt(jwt).payload : jwt
+  return typeof exp === 'number' ? exp - Math.floor(now / 1000) : null
+}
+
+/**
+ * Whether `verifyJwt` can check tokens signed with `alg` (ES256, RS256 or
+ * HS256).
+ */
+export function isSupportedJwtAlgorithm(alg: string): boolean {
+  return Object.hasOwn(ALGORITHMS, alg)
+}
+
+function findJwk(jwks: JsonWebKeySet, header: JwtHeader): JsonWebKey {
+  const key = jwks.keys.find((candidate) =>
+    header.kid
+      ? candidate.kid === header.kid
+      : !candidate.alg || candidate.alg === header.alg
+  )
+  if (!key) {
+    throw new SupabaseError(ERROR_MESSAGES.JWKS_KEY_NOT_FOUND)
+  }
+  return key
+}
+
+/**
+ * Verifies a JWT's signature and expiry locally with Web Crypto and
+ * returns its decoded parts.
+ *
+ * ES256 and RS256 tokens are checked against the key in `jwks` with the
+ * token's `kid`; HS256 tokens need the project's shared `secret`.
+ *
+ * @throws SupabaseError when the token is malformed, expired, signed with
+ *   an unsupported algorithm or unknown key, or its signature is invalid.
+ *
+ * @example
+ * ```typescript
+ * const jwks = await fetch(`${url}/auth/v1/.well-known/jwks.json`).then(
+ *   (response) => response.json()
+ * )
+ * const { payload } = await verifyJwt(accessToken, { jwks })
+ * ```
+ */
+export async function verifyJwt(
+  jwt: string,
+  key: JwtVerificationKey,
+  now: number = Date.now()
+): Promise<DecodedJwt> {
+  const decoded = decodeJwt(jwt)
+  const { header } = decoded
+  const algorithm = ALGORITHMS[header.alg]
+  const symmetric = header.alg === 'HS256'
+  if (!isSupportedJwtAlgorithm(header.alg) || symmetric !== 'secret' in key) {
+    throw new SupabaseError(ERROR_MESSAGES.UNSUPPORTED_JWT_ALGORITHM)
+  }
+
+  let valid: boolean
+  try {
+    const cryptoKey =
+      'secret' in key
+        ? await crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(key.secret),
+            algorithm.importParams,
+            false,
+            ['verify']
+          )
+        : await crypto.subtle.importKey(
+            'jwk',
+            findJwk(key.jwks, header),
+            algorithm.importParams,
+            false,
+            ['verify']
+          )
+    valid = await crypto.subtle.verify(
+      algorithm.verifyParams,
+      cryptoKey,
+      decoded.signature as Uint8Array<ArrayBuffer>,
+      new TextEncoder().encode(decoded.signingInput)
+    )
+  } catch (error) {
+    if (error instanceof SupabaseError) {
+      throw error
+    }
+    // Web Crypto throws for keys and signatures that don't fit the algorithm
+    throw new SupabaseError(ERROR_MESSAGES.INVALID_JWT_SIGNATURE)
+  }
+  if (!valid) {
+    throw new SupabaseError(ERROR_MESSAGES.INVALID_JWT_SIGNATURE)
+  }
+
+  const expiresIn = getJwtExpiresIn(decoded.payload, now)
+  if (expiresIn !== null && expiresIn <= 0) {
+    throw new SupabaseError(ERROR_MESSAGES.JWT_EXPIRED)
+  }
+  return decoded
+}
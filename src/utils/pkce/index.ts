@@ -0,0 +1,63 @@
+import type { AuthCallbackParams } from '../../types/index.js'
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Generates a PKCE code verifier: 32 random bytes from Web Crypto,
+ * base64url-encoded (43 characters).
+ */
+export function generateCodeVerifier(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return base64UrlEncode(bytes)
+}
+
+/**
+ * Derives the S256 code challenge for a verifier:
+ * `base64url(SHA-256(verifier))`.
+ */
+export async function generateCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(verifier)
+  )
+  return base64UrlEncode(new Uint8Array(digest))
+}
+
+/**
+ * Reads the `code` or error parameters from an auth redirect URL.
+ *
+ * GoTrue reports errors in the query string or, for implicit redirects,
+ * in the hash fragment; both are checked.
+ *
+ * @example
+ * ```typescript
+ * const { code, error } = parseAuthCallbackUrl(window.location.href)
+ * if (error) throw new Error(error.description ?? error.error)
+ * if (code) await client.exchangeCodeForSession(code)
+ * ```
+ */
+export function parseAuthCallbackUrl(url: string | URL): AuthCallbackParams {
+  const parsed = new URL(url)
+  const hash = new URLSearchParams(parsed.hash.replace(/^#/, ''))
+  const read = (key: string) =>
+    parsed.searchParams.get(key) ?? hash.get(key) ?? null
+
+  const error = read('error')
+  return {
+    code: read('code'),
+    error: error
+      ? {
+          error,
+          errorCode: read('error_code'),
+          description: read('error_description')
+        }
+      : null
+  }
+}
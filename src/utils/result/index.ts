@@ -0,0 +1,45 @@
+import type { SupabaseResult } from '../../types/index.js'
+import { SupabaseError } from '../../types/index.js'
+import { parseContentRange } from '../../pagination/index.js'
+
+/**
+ * Runs a call and settles it into `{ data, error, status, statusText, count }`
+ * instead of letting `SupabaseError`s reject. Other errors still reject.
+ *
+ * `run` gets an `onResponse` hook to pass down as a request option; the last
+ * response it sees supplies the status. The count is read from that
+ * response's `Content-Range` unless `countOf` reads it from the data.
+ */
+export async function settle<Data>(
+  run: (onResponse: (response: Response) => void) => Promise<Data>,
+  countOf?: (data: Data) => number | null
+): Promise<SupabaseResult<Data>> {
+  let last: Response | undefined
+  try {
+    const data = await run((response) => {
+      last = response
+    })
+    return {
+      data,
+      error: null,
+      status: last?.status ?? 0,
+      statusText: last?.statusText ?? '',
+      count: countOf
+        ? countOf(data)
+        : parseContentRange(last?.headers.get('Content-Range') ?? null).count
+    }
+  } catch (error) {
+    if (!(error instanceof SupabaseError)) {
+      throw error
+    }
+    // Errors without a status (network, timeout, abort) had no response
+    const response = error.statusCode === undefined ? undefined : last
+    return {
+      data: null,
+      error,
+      status: error.statusCode ?? 0,
+      statusText: response?.statusText ?? '',
+      count: null
+    }
+  }
+}
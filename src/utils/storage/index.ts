@@ -0,0 +1,181 @@
+import type { AuthSession, SessionStorage } from '../../types/index.js'
+
+/**
+ * Version written alongside persisted sessions. Entries with any other
+ * version are ignored so a format change never restores a malformed session.
+ */
+export const SESSION_STORAGE_VERSION = 1
+
+interface StoredSession {
+  version: number
+  session: AuthSession
+}
+
+/**
+ * Serializes a session for storage.
+ */
+export function serializeSession(session: AuthSession): string {
+  const stored: StoredSession = {
+    version: SESSION_STORAGE_VERSION,
+    session
+  }
+  return JSON.stringify(stored)
+}
+
+/**
+ * Parses a stored session, returning `null` for missing, corrupt or
+ * outdated entries.
+ */
+export function deserializeSession(value: string | null): AuthSession | null {
+  if (!value) {
+    return null
+  }
+
+  try {
+    const stored = JSON.parse(value) as Partial<StoredSession> | null
+    if (
+      stored?.version !== SESSION_STORAGE_VERSION ||
+      typeof stored.session?.access_token !== 'string' ||
+      typeof stored.session.refresh_token !== 'string'
+    ) {
+      return null
+    }
+    return stored.session
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Default storage key, derived from the project ref in the base URL
+ * (`https://<ref>.supabase.co` → `sb-<ref>-auth-token`).
+ */
+export function defaultStorageKey(baseUrl: string): string {
+  try {
+    const [ref] = new URL(baseUrl).hostname.split('.')
+    return `sb-${ref}-auth-token`
+  } catch {
+    return 'sb-auth-token'
+  }
+}
+
+/**
+ * In-memory storage. Sessions last as long as the process or page.
+ *
+ * @example
+ * ```typescript
+ * createSupabaseClient({ baseUrl, apiKey, storage: createMemoryStorage() })
+ * ```
+ */
+export function createMemoryStorage(): SessionStorage {
+  const items = new Map<string, string>()
+  return {
+    get: async (key) => items.get(key) ?? null,
+    set: async (key, value) => {
+      items.set(key, value)
+    },
+    remove: async (key) => {
+      items.delete(key)
+    }
+  }
+}
+
+/**
+ * The subset of the Web Storage API used by `createLocalStorage`.
+ */
+export interface WebStorageLike {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+/**
+ * Storage backed by `localStorage` or any object with the same
+ * `getItem`/`setItem`/`removeItem` methods (e.g. `sessionStorage`).
+ *
+ * @param webStorage - Defaults to `globalThis.localStorage`.
+ */
+export function createLocalStorage(
+  webStorage: WebStorageLike = globalThis.localStorage
+): SessionStorage {
+  return {
+    get: async (key) => webStorage.getItem(key),
+    set: async (key, value) => webStorage.setItem(key, value),
+    remove: async (key) => webStorage.removeItem(key)
+  }
+}
+
+/**
+ * The subset of `node:fs/promises` used by `createFileStorage`.
+ */
+interface FileSystem {
+  readFile(path: string, encoding: 'utf8'): Promise<string>
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>
+  rename(oldPath: string, newPath: string): Promise<void>
+}
+
+// Widened to `string` so the module is only resolved at runtime, keeping
+// browser bundles free of Node built-ins
+const FS_MODULE: string = 'node:fs/promises'
+
+/**
+ * Storage backed by a JSON file holding every key, for Node and Bun
+ * processes that should keep their session across restarts.
+ *
+ * Writes go to a temporary file that is renamed over the original, and are
+ * serialized within the process.
+ *
+ * @param path - Path of the JSON file. It is created on first write.
+ */
+export function createFileStorage(path: string): SessionStorage {
+  let fileSystem: Promise<FileSystem> | undefined
+  let queue: Promise<unknown> = Promise.resolve()
+
+  function load(): Promise<FileSystem> {
+    fileSystem ??= import(FS_MODULE) as Promise<FileSystem>
+    return fileSystem
+  }
+
+  async function read(): Promise<Record<string, string>> {
+    const fs = await load()
+    try {
+      return JSON.parse(await fs.readFile(path, 'utf8')) as Record<
+        string,
+        string
+      >
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return {}
+      }
+      throw error
+    }
+  }
+
+  function update(change: (items: Record<string, string>) => void) {
+    const next = queue.then(async () => {
+      const fs = await load()
+      const items = await read()
+      change(items)
+      const temporaryPath = `${path}.tmp`
+      await fs.writeFile(temporaryPath, JSON.stringify(items), 'utf8')
+      await fs.rename(temporaryPath, path)
+    })
+    queue = next.catch(() => {})
+    return next
+  }
+
+  return {
+    get: async (key) => {
+      await queue
+      return (await read())[key] ?? null
+    },
+    set: (key, value) =>
+      update((items) => {
+        items[key] = value
+      }),
+    remove: (key) =>
+      update((items) => {
+        delete items[key]
+      })
+  }
+}